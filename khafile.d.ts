@@ -0,0 +1,201 @@
+// Type declarations for khafiles. Reference this file from a khafile.ts
+// (or from a jsconfig.json for khafile.js) to get type checking and completion:
+// /// <reference path="Kha/Tools/khamake/khafile.d.ts" />
+
+declare class Library {
+	libpath: string;
+	libroot: string;
+}
+
+interface BackendOptions {
+	name: string;
+	/** Deep-merged into project.targetOptions, values set here win */
+	targetOptions?: any;
+	/** Overrides the options of all asset matchers */
+	assetOptions?: any;
+}
+
+declare class Target {
+	baseTarget: string;
+	backends: string[];
+	backendOptions: BackendOptions[];
+	constructor(baseTarget: string, backends: (string | BackendOptions)[]);
+}
+
+interface ConfigurationOptions {
+	defines?: string[];
+	cdefines?: string[];
+	parameters?: string[];
+	/** Overrides the options of all asset matchers */
+	assetOptions?: any;
+	/** Overrides the options of all shader matchers */
+	shaderOptions?: any;
+	/** Builds in debug mode like --debug */
+	debug?: boolean;
+}
+
+declare class Configuration {
+	defines: string[];
+	cdefines: string[];
+	parameters: string[];
+	assetOptions: any;
+	shaderOptions: any;
+	debug: boolean;
+	constructor(options: ConfigurationOptions);
+}
+
+declare class Project {
+	static platform: string;
+	static scriptdir: string;
+	name: string;
+	sources: string[];
+	defines: string[];
+	cdefines: string[];
+	parameters: string[];
+	scriptdir: string;
+	libraries: Library[];
+	localLibraryPath: string;
+	windowOptions: any;
+	targetOptions: any;
+	assetMatchers: { match: string, options: any }[];
+	shaderMatchers: { match: string, options: any }[];
+	customTargets: Map<string, Target>;
+	configurations: Map<string, Configuration>;
+	stackSize: number;
+
+	constructor(name: string);
+
+	/**
+	 * Adds the project in projectDir, its khafile is evaluated for the current platform.
+	 * windowOptions and targetOptions are deep-merged, values set by this project win.
+	 * ignoreOptions lists dotted paths like 'targetOptions.html5.canvasId' which are not taken over.
+	 */
+	addProject(projectDir: string, options?: { ignoreOptions?: string[] }): Promise<void>;
+
+	/**
+	 * Add all assets matching the match glob relative to the directory containing the current khafile.
+	 * Asset types are infered from the file suffix.
+	 * options.exclude is a glob or a list of globs of files to leave out.
+	 */
+	addAssets(match: string, options?: any): void;
+
+	/**
+	 * options.exclude is a glob or a list of globs of Haxe files which are left out of the compilation.
+	 */
+	addSources(source: string, options?: { exclude?: string | string[] }): void;
+
+	/**
+	 * Add all shaders matching the match glob relative to the directory containing the current khafile.
+	 * options.exclude is a glob or a list of globs of files to leave out.
+	 */
+	addShaders(match: string, options?: any): void;
+
+	addDefine(define: string): void;
+	addCDefine(define: string): void;
+	addParameter(parameter: string): void;
+	/**
+	 * Adds a target which builds baseTarget with additional backends. Every backend adds the Backends/<backend>
+	 * directories of the project and of Kha to the sources and defines kha_<backend>.
+	 */
+	addTarget(name: string, baseTarget: string, backends: (string | BackendOptions)[]): void;
+
+	/**
+	 * Adds a build configuration which can be selected using --config name.
+	 */
+	addConfiguration(name: string, options: ConfigurationOptions): void;
+
+	/**
+	 * Adds a library from the Libraries directory or from haxelib.
+	 * 'name@1.2.3' only accepts that version of the library.
+	 */
+	addLibrary(library: string): void;
+}
+
+declare const Platform: {
+	Krom: 'krom',
+	Windows: 'windows',
+	WindowsApp: 'windowsapp',
+	PlayStation3: 'ps3',
+	iOS: 'ios',
+	OSX: 'osx',
+	Android: 'android',
+	Xbox360: 'xbox360',
+	Linux: 'linux',
+	HTML5: 'html5',
+	HTML5Worker: 'html5worker',
+	Flash: 'flash',
+	WPF: 'wpf',
+	Java: 'java',
+	PlayStationMobile: 'psm',
+	Tizen: 'tizen',
+	Unity: 'unity',
+	Node: 'node',
+	DebugHTML5: 'debug-html5',
+	Empty: 'empty',
+	Pi: 'pi',
+	tvOS: 'tvos'
+};
+
+/**
+ * Passed to every callback, the fields are filled in as the build progresses.
+ */
+interface HookContext {
+	hook: string;
+	project: Project;
+	exporter: any;
+	options: any;
+	/** Everything built so far including the durations of the finished phases */
+	result: any;
+	/** The converted assets, set from postAssetConversion on */
+	assets: { name: string, files: string[], type: string }[];
+	/** The compiled shaders, set from postShaderCompilation on */
+	shaders: { name: string, files: string[] }[];
+	/** The options Haxe is run with, set from postHaxeCompilation on */
+	haxeOptions: any;
+	/** What was rebuilt for onWatchRebuild: 'assets', 'shaders' or 'haxe' */
+	phase: string;
+	/** Why the build failed for onError */
+	error: Error & { code: string, exitCode: number };
+}
+
+/**
+ * Callbacks can return a promise, the build waits for it.
+ * A failing callback fails the build, except for onWatchRebuild and onError.
+ */
+type Hook = (context: HookContext) => void | Promise<void>;
+
+interface KhafileCallbacks {
+	preAssetConversion: Hook;
+	postAssetConversion: Hook;
+	preShaderCompilation: Hook;
+	postShaderCompilation: Hook;
+	preHaxeCompilation: Hook;
+	postHaxeCompilation: Hook;
+	preExport: Hook;
+	postExport: Hook;
+	postCppCompilation: Hook;
+	onWatchRebuild: Hook;
+	onError: Hook;
+}
+
+/**
+ * Passed to the function a khafile.ts or khafile.mjs exports as default.
+ * khafile.mjs files are ES modules and do not see the globals below, they have to use this.
+ */
+interface KhafileContext {
+	Project: typeof Project;
+	Platform: typeof Platform;
+	platform: string;
+	callbacks: KhafileCallbacks;
+}
+
+/**
+ * What a khafile.ts or khafile.mjs can export as default instead of calling resolve.
+ */
+type KhafileExport = Project | ((context: KhafileContext) => Project | Promise<Project>);
+
+// Globals of khafile.js and khafile.ts
+declare const platform: string;
+declare const callbacks: KhafileCallbacks;
+declare function resolve(project: Project): void;
+declare function reject(error: any): void;
@@ -1,30 +1,54 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import {KhaExporter} from './Exporters/KhaExporter';
+import {openCache} from './BuildCache';
+import * as dryrun from './DryRun';
 import * as log from './log';
 import * as chokidar from 'chokidar';
+import {ignoredFiles} from './Exclude';
+import {OutputManifest} from './OutputManifest';
 import * as crypto from 'crypto';
 import * as Throttle from 'promise-parallel-throttle';
 import { Options } from './Options';
+import { FileScanner } from './FileScanner';
+
+export interface Asset {
+	name: string;
+	from: string;
+	type: string;
+	files: string[];
+	original_width: number;
+	original_height: number;
+	readable: boolean;
+}
 
 export class AssetConverter {
 	options: Options;
 	exporter: KhaExporter;
 	platform: string;
 	assetMatchers: Array<{ match: string, options: any }>;
+	scanner: FileScanner;
 	watcher: fs.FSWatcher;
+	onRebuild: () => void = null;
+	outputs: OutputManifest = null;
+	private exported: Map<string, Asset>[] = [];
 
-	constructor(exporter: KhaExporter, options: Options, assetMatchers: Array<{ match: string, options: any }>) {
+	constructor(exporter: KhaExporter, options: Options, assetMatchers: Array<{ match: string, options: any }>, scanner: FileScanner = null) {
 		this.exporter = exporter;
 		this.options = options;
 		this.platform = options.target;
 		this.assetMatchers = assetMatchers;
+		this.scanner = scanner;
 	}
 
 	close(): void {
 		if (this.watcher) this.watcher.close();
 	}
 
+	private recordOutputs(source: string, kind: string, files: string[]): void {
+		if (this.outputs) this.outputs.record('assets', source, this.exporter.assetFiles(kind, files));
+	}
+
 	static replacePattern(pattern: string, value: string, fileinfo: path.ParsedPath, options: any, from: string) {
 		let basePath: string = options.nameBaseDir ? path.join(from, options.nameBaseDir) : from;
 		let dirValue: string = path.relative(basePath, fileinfo.dir);
@@ -72,156 +96,35 @@ export class AssetConverter {
 		return {name: nameValue, destination: destination};
 	}
 
-	watch(watch: boolean, match: string, temp: string, options: any): Promise<{ name: string, from: string, type: string, files: string[], original_width: number, original_height: number, readable: boolean }[]> {
-		return new Promise<{ name: string, from: string, type: string, files: string[], original_width: number, original_height: number, readable: boolean }[]>((resolve, reject) => {
+	watch(watch: boolean, match: string, temp: string, options: any): Promise<Asset[]> {
+		return new Promise<Asset[]>((resolve, reject) => {
 			let ready = false;
 			let files: string[] = [];
-			this.watcher = chokidar.watch(match, { ignored: /[\/\\]\.git/, persistent: watch });
-
-			const onFileChange = (file: string) => {
-				const fileinfo = path.parse(file);
-				const baseDir = path.dirname(match);
-				let outPath = fileinfo.dir + path.sep + fileinfo.name;
-				outPath = path.relative(baseDir, outPath);
-				log.info('Reexporting ' + outPath + fileinfo.ext);
-				switch (fileinfo.ext) {
-					case '.png':
-					case '.jpg':
-					case '.jpeg':
-					case '.hdr': {}
-						this.exporter.copyImage(this.platform, file, outPath, {}, {});
-						break;
-
-					case '.flac':
-					case '.wav': {
-						this.exporter.copySound(this.platform, file, outPath, {});
-						break;
-					}
-
-					case '.mp4':
-					case '.webm':
-					case '.mov':
-					case '.wmv':
-					case '.avi': {
-						this.exporter.copyVideo(this.platform, file, outPath, {});
-						break;
-					}
+			let parsedFiles = new Map<string, Asset>();
+			this.exported.push(parsedFiles);
 
-					case '.ttf':
-						this.exporter.copyFont(this.platform, file, outPath, {});
-						break;
+			const setAsset = (file: string, asset: Asset) => {
+				if (asset === null) parsedFiles.delete(file);
+				else parsedFiles.set(file, asset);
+			};
 
-					default:
-						this.exporter.copyBlob(this.platform, file, outPath + fileinfo.ext, {});
-				}
+			const onFileChange = async (file: string) => {
+				log.info('Reexporting ' + path.basename(file));
+				setAsset(file, await this.convertAsset(file, options));
+				openCache(this.options.to).save();
+				if (this.outputs) this.outputs.save();
+				if (this.onRebuild) this.onRebuild();
 			};
 
-			this.watcher.on('add', (file: string) => {
-				if (ready) {
-					onFileChange(file);
-				}
-				else {
-					files.push(file);
-				}
-			});
-			if (watch) {
-				this.watcher.on('change', (file: string) => {
-					if (ready) {
-						onFileChange(file);
-					}
-				});
-			}
-			this.watcher.on('ready', async () => {
+			const exportFiles = async () => {
 				ready = true;
-				let parsedFiles: { name: string, from: string, type: string, files: string[], original_width: number, original_height: number, readable: boolean }[] = [];
-				let cache: any = {};
-				let cachePath = path.join(temp, 'cache.json');
-				if (fs.existsSync(cachePath)) {
-					cache = JSON.parse(fs.readFileSync(cachePath, 'utf8'));
-				}
+				let cache = openCache(this.options.to);
 
 				const self = this;
 
 				async function convertAsset( file: string, index: number ) {
-					let fileinfo = path.parse(file);
-					log.info('Exporting asset ' + (index + 1) + ' of ' + files.length + ' (' + fileinfo.base + ').');
-					switch (fileinfo.ext.toLowerCase()) {
-						case '.png':
-						case '.jpg':
-						case '.jpeg':
-						case '.hdr': {
-							let exportInfo = AssetConverter.createExportInfo(fileinfo, false, options, self.exporter.options.from);
-							let images: string[];
-							if (options.noprocessing) {
-								images = await self.exporter.copyBlob(self.platform, file, exportInfo.destination, options);
-							}
-							else {
-								images = await self.exporter.copyImage(self.platform, file, exportInfo.destination, options, cache);
-							}
-							if (!options.notinlist) {
-								parsedFiles.push({ name: exportInfo.name, from: file, type: 'image', files: images, original_width: options.original_width, original_height: options.original_height, readable: options.readable });
-							}
-							break;
-						}
-						case '.flac':
-						case '.wav': {
-							let exportInfo = AssetConverter.createExportInfo(fileinfo, false, options, self.exporter.options.from);
-							let sounds: string[];
-							if (options.noprocessing) {
-								sounds = await self.exporter.copyBlob(self.platform, file, exportInfo.destination, options);
-							}
-							else {
-								sounds = await self.exporter.copySound(self.platform, file, exportInfo.destination, options);
-							}
-							if (!options.notinlist) {
-								parsedFiles.push({ name: exportInfo.name, from: file, type: 'sound', files: sounds, original_width: undefined, original_height: undefined, readable: undefined });
-							}
-							break;
-						}
-						case '.ttf': {
-							let exportInfo = AssetConverter.createExportInfo(fileinfo, false, options, self.exporter.options.from);
-							let fonts: string[];
-							if (options.noprocessing) {
-								fonts = await self.exporter.copyBlob(self.platform, file, exportInfo.destination, options);
-							}
-							else {
-								fonts = await self.exporter.copyFont(self.platform, file, exportInfo.destination, options);
-							}
-							if (!options.notinlist) {
-								parsedFiles.push({ name: exportInfo.name, from: file, type: 'font', files: fonts, original_width: undefined, original_height: undefined, readable: undefined });
-							}
-							break;
-						}
-						case '.mp4':
-						case '.webm':
-						case '.mov':
-						case '.wmv':
-						case '.avi': {
-							let exportInfo = AssetConverter.createExportInfo(fileinfo, false, options, self.exporter.options.from);
-							let videos: string[];
-							if (options.noprocessing) {
-								videos = await self.exporter.copyBlob(self.platform, file, exportInfo.destination, options);
-							}
-							else {
-								videos = await self.exporter.copyVideo(self.platform, file, exportInfo.destination, options);
-							}
-							if (videos.length === 0) {
-								log.error('Video file ' + file + ' could not be exported, you have to specify a path to ffmpeg.');
-							}
-							if (!options.notinlist) {
-								parsedFiles.push({ name: exportInfo.name, from: file, type: 'video', files: videos, original_width: undefined, original_height: undefined, readable: undefined });
-							}
-							break;
-						}
-						default: {
-							let exportInfo = AssetConverter.createExportInfo(fileinfo, true, options, self.exporter.options.from);
-							let blobs = await self.exporter.copyBlob(self.platform, file, exportInfo.destination, options);
-							if (!options.notinlist) {
-								parsedFiles.push({ name: exportInfo.name, from: file, type: 'blob', files: blobs, original_width: undefined, original_height: undefined, readable: undefined });
-							}
-							break;
-						}
-					}
+					log.info('Exporting asset ' + (index + 1) + ' of ' + files.length + ' (' + path.basename(file) + ').');
+					setAsset(file, await self.convertAsset(file, options));
 				}
 
 				if (this.options.parallelAssetConversion !== 0) {
@@ -246,15 +149,145 @@ export class AssetConverter {
 					}
 				}
 
-				fs.ensureDirSync(temp);
-				fs.writeFileSync(cachePath, JSON.stringify(cache), { encoding: 'utf8'});
-				resolve(parsedFiles);
+				if (dryrun.get()) {
+					resolve(Array.from(parsedFiles.values()));
+					return;
+				}
+
+				cache.save();
+				resolve(Array.from(parsedFiles.values()));
+			};
+
+			if (!watch && this.scanner) {
+				this.scanner.scan(match, options).then((scanned: string[]) => {
+					files = scanned;
+					return exportFiles();
+				}).catch(reject);
+				return;
+			}
+
+			this.watcher = chokidar.watch(match, { ignored: ignoredFiles(options), persistent: watch });
+			this.watcher.on('add', (file: string) => {
+				if (ready) {
+					onFileChange(file).catch((error) => log.error(error.toString()));
+				}
+				else {
+					files.push(file);
+				}
+			});
+			if (watch) {
+				this.watcher.on('change', (file: string) => {
+					if (ready) {
+						onFileChange(file).catch((error) => log.error(error.toString()));
+					}
+				});
+				this.watcher.on('unlink', (file: string) => {
+					if (ready) {
+						log.info('Removing ' + path.basename(file));
+						parsedFiles.delete(file);
+						if (this.outputs) this.outputs.forget('assets', file);
+						if (this.onRebuild) this.onRebuild();
+					}
+				});
+			}
+			this.watcher.on('ready', () => {
+				exportFiles().catch(reject);
 			});
 		});
 	}
 
-	async run(watch: boolean, temp: string): Promise<{ name: string, from: string, type: string, files: string[], original_width: number, original_height: number, readable: boolean }[]> {
-		let files: { name: string, from: string, type: string, files: string[], original_width: number, original_height: number, readable: boolean }[] = [];
+	/**
+	 * Exports an asset found by a matcher, returns null for assets which are not listed in files.json.
+	 */
+	private async convertAsset(file: string, options: any): Promise<Asset> {
+		let fileinfo = path.parse(file);
+		switch (fileinfo.ext.toLowerCase()) {
+			case '.png':
+			case '.jpg':
+			case '.jpeg':
+			case '.hdr': {
+				let exportInfo = AssetConverter.createExportInfo(fileinfo, false, options, this.exporter.options.from);
+				let images: string[];
+				if (options.noprocessing) {
+					images = await this.exporter.copyBlob(this.platform, file, exportInfo.destination, options);
+				}
+				else {
+					images = await this.exporter.copyImage(this.platform, file, exportInfo.destination, options);
+				}
+				this.recordOutputs(file, options.noprocessing ? 'blob' : 'image', images);
+				if (options.notinlist) return null;
+				return { name: exportInfo.name, from: file, type: 'image', files: images, original_width: options.original_width, original_height: options.original_height, readable: options.readable };
+			}
+			case '.flac':
+			case '.wav': {
+				let exportInfo = AssetConverter.createExportInfo(fileinfo, false, options, this.exporter.options.from);
+				let sounds: string[];
+				if (options.noprocessing) {
+					sounds = await this.exporter.copyBlob(this.platform, file, exportInfo.destination, options);
+				}
+				else {
+					sounds = await this.exporter.copySound(this.platform, file, exportInfo.destination, options);
+				}
+				this.recordOutputs(file, options.noprocessing ? 'blob' : 'sound', sounds);
+				if (options.notinlist) return null;
+				return { name: exportInfo.name, from: file, type: 'sound', files: sounds, original_width: undefined, original_height: undefined, readable: undefined };
+			}
+			case '.ttf': {
+				let exportInfo = AssetConverter.createExportInfo(fileinfo, false, options, this.exporter.options.from);
+				let fonts: string[];
+				if (options.noprocessing) {
+					fonts = await this.exporter.copyBlob(this.platform, file, exportInfo.destination, options);
+				}
+				else {
+					fonts = await this.exporter.copyFont(this.platform, file, exportInfo.destination, options);
+				}
+				this.recordOutputs(file, options.noprocessing ? 'blob' : 'font', fonts);
+				if (options.notinlist) return null;
+				return { name: exportInfo.name, from: file, type: 'font', files: fonts, original_width: undefined, original_height: undefined, readable: undefined };
+			}
+			case '.mp4':
+			case '.webm':
+			case '.mov':
+			case '.wmv':
+			case '.avi': {
+				let exportInfo = AssetConverter.createExportInfo(fileinfo, false, options, this.exporter.options.from);
+				let videos: string[];
+				if (options.noprocessing) {
+					videos = await this.exporter.copyBlob(this.platform, file, exportInfo.destination, options);
+				}
+				else {
+					videos = await this.exporter.copyVideo(this.platform, file, exportInfo.destination, options);
+				}
+				this.recordOutputs(file, options.noprocessing ? 'blob' : 'video', videos);
+				if (videos.length === 0) {
+					log.error('Video file ' + file + ' could not be exported, you have to specify a path to ffmpeg.');
+				}
+				if (options.notinlist) return null;
+				return { name: exportInfo.name, from: file, type: 'video', files: videos, original_width: undefined, original_height: undefined, readable: undefined };
+			}
+			default: {
+				let exportInfo = AssetConverter.createExportInfo(fileinfo, true, options, this.exporter.options.from);
+				let blobs = await this.exporter.copyBlob(this.platform, file, exportInfo.destination, options);
+				this.recordOutputs(file, 'blob', blobs);
+				if (options.notinlist) return null;
+				return { name: exportInfo.name, from: file, type: 'blob', files: blobs, original_width: undefined, original_height: undefined, readable: undefined };
+			}
+		}
+	}
+
+	/**
+	 * The assets of all matchers, in watch mode including the ones added or changed since.
+	 */
+	exportedAssets(): Asset[] {
+		let assets: Asset[] = [];
+		for (let parsedFiles of this.exported) {
+			assets = assets.concat(Array.from(parsedFiles.values()));
+		}
+		return assets;
+	}
+
+	async run(watch: boolean, temp: string): Promise<Asset[]> {
+		let files: Asset[] = [];
 		for (let matcher of this.assetMatchers) {
 			files = files.concat(await this.watch(watch, matcher.match, temp, matcher.options));
 		}
@@ -0,0 +1,157 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as dryrun from './DryRun';
+
+const cacheVersion = 1;
+
+interface CacheEntry {
+	key: string;
+	data: any;
+}
+
+interface FileHash {
+	size: number;
+	mtime: number;
+	hash: string;
+}
+
+// Tools do not change during a run, their hashes are kept for the whole process
+let toolHashes = new Map<string, string>();
+
+function hashContents(file: string): string {
+	return crypto.createHash('sha1').update(fs.readFileSync(file)).digest('hex');
+}
+
+// Object keys are sorted so the same options always give the same key
+function stableStringify(value: any): string {
+	if (Array.isArray(value)) return '[' + value.map(stableStringify).join(',') + ']';
+	if (value !== null && typeof value === 'object') {
+		return '{' + Object.keys(value).sort().filter((key) => value[key] !== undefined).map((key) => JSON.stringify(key) + ':' + stableStringify(value[key])).join(',') + '}';
+	}
+	return JSON.stringify(value);
+}
+
+/**
+ * Remembers which input, options and tool every converted file was created from.
+ * A file is only converted again when one of them changes, modification times are not used.
+ */
+export class BuildCache {
+	directory: string;
+	file: string;
+	entries: {[output: string]: CacheEntry};
+	hashes: {[input: string]: FileHash};
+
+	constructor(directory: string) {
+		this.directory = path.resolve(directory);
+		this.file = path.join(this.directory, 'temp', 'cache.json');
+		this.entries = {};
+		this.hashes = {};
+		let stored = this.read();
+		if (stored !== null) {
+			this.entries = stored.entries;
+			this.hashes = stored.hashes;
+		}
+	}
+
+	private read(): { entries: {[output: string]: CacheEntry}, hashes: {[input: string]: FileHash} } {
+		if (!fs.existsSync(this.file)) return null;
+		try {
+			let stored = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+			// Caches of older versions only contain image sizes
+			if (stored.cacheVersion !== cacheVersion) return null;
+			return stored;
+		}
+		catch (error) {
+			return null;
+		}
+	}
+
+	/**
+	 * The content hash of file, only files which changed size or modification time are read again.
+	 */
+	hashFile(file: string): string {
+		file = path.resolve(file);
+		let stats = fs.statSync(file);
+		let known = this.hashes[file];
+		if (known !== undefined && known.size === stats.size && known.mtime === stats.mtime.getTime()) return known.hash;
+		let hash = hashContents(file);
+		this.hashes[file] = { size: stats.size, mtime: stats.mtime.getTime(), hash: hash };
+		return hash;
+	}
+
+	/**
+	 * Identifies a conversion of input by tool, parameters contains everything else which influences the output.
+	 */
+	key(input: string, tool: string, parameters: any): string {
+		return crypto.createHash('sha1').update(stableStringify({
+			input: this.hashFile(input),
+			tool: tool,
+			version: toolVersion(tool),
+			parameters: parameters
+		})).digest('hex');
+	}
+
+	isFresh(output: string, key: string): boolean {
+		let entry = this.entries[path.resolve(output)];
+		return entry !== undefined && entry.key === key && fs.existsSync(output);
+	}
+
+	/**
+	 * What was stored together with output, for example the size of an image.
+	 */
+	data(output: string): any {
+		let entry = this.entries[path.resolve(output)];
+		return entry !== undefined ? entry.data : null;
+	}
+
+	store(output: string, key: string, data: any = null): void {
+		if (dryrun.get()) return;
+		this.entries[path.resolve(output)] = { key: key, data: data };
+	}
+
+	save(): void {
+		if (dryrun.get()) return;
+		let stored = this.read();
+		// Other khamake processes building to the same directory may have written to the cache in the meantime
+		let entries = stored !== null ? Object.assign(stored.entries, this.entries) : this.entries;
+		let hashes = stored !== null ? Object.assign(stored.hashes, this.hashes) : this.hashes;
+		fs.ensureDirSync(path.dirname(this.file));
+		fs.writeFileSync(this.file, JSON.stringify({ cacheVersion: cacheVersion, entries: entries, hashes: hashes }), 'utf8');
+	}
+}
+
+/**
+ * Hash of the tool's executable. Tools given as a command line (like options.ogg) use their first word.
+ */
+export function toolVersion(tool: string): string {
+	if (!tool) return null;
+	let exe = fs.existsSync(tool) ? tool : tool.split(' ')[0];
+	if (!fs.existsSync(exe) || !fs.statSync(exe).isFile()) return null;
+	let stats = fs.statSync(exe);
+	let id = path.resolve(exe) + ':' + stats.size + ':' + stats.mtime.getTime();
+	if (!toolHashes.has(id)) toolHashes.set(id, hashContents(exe));
+	return toolHashes.get(id);
+}
+
+let caches = new Map<string, BuildCache>();
+
+/**
+ * The cache of the build directory, targets built in the same process share it.
+ */
+export function openCache(directory: string): BuildCache {
+	let resolved = path.resolve(directory);
+	if (!caches.has(resolved)) caches.set(resolved, new BuildCache(resolved));
+	return caches.get(resolved);
+}
+
+/**
+ * The cache of the build directory output is written to, null when none was opened.
+ */
+export function cacheFor(output: string): BuildCache {
+	let resolved = path.resolve(output);
+	for (let cache of caches.values()) {
+		if (resolved.startsWith(cache.directory + path.sep)) return cache;
+	}
+	return null;
+}
@@ -0,0 +1,64 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {BuildResult} from './BuildResult';
+import {KhamakeError} from './KhamakeError';
+
+function createBuildReport(result: BuildResult, error: Error): any {
+	return {
+		name: result.name,
+		target: result.target,
+		sysdir: result.sysdir,
+		success: error === null,
+		error: error === null ? null : error.message,
+		errorCode: error instanceof KhamakeError ? error.code : null,
+		errorFile: error instanceof KhamakeError ? error.file : null,
+		errorOutput: error instanceof KhamakeError ? error.output : null,
+		outputDirectory: result.outputDirectory,
+		resourceDirectory: result.resourceDirectory,
+		buildDirectory: result.buildDirectory,
+		hxml: result.hxml,
+		korefile: result.korefile,
+		haxeOutput: result.haxeOutput,
+		nativeProject: result.nativeProject,
+		exitCode: result.exitCode,
+		assets: result.assets.map((asset) => {
+			return {
+				name: asset.name,
+				type: asset.type,
+				source: asset.from,
+				outputs: asset.files
+			};
+		}),
+		shaders: result.shaders.map((shader) => {
+			return {
+				name: shader.name,
+				files: shader.files,
+				inputs: shader.inputs,
+				outputs: shader.outputs,
+				uniforms: shader.uniforms,
+				types: shader.types
+			};
+		}),
+		phases: result.phases,
+		warnings: result.warnings,
+		errors: result.errors
+	};
+}
+
+export function writeBuildReport(file: string, result: BuildResult, error: Error): void {
+	fs.outputFileSync(path.resolve(file), JSON.stringify(createBuildReport(result, error), null, '\t'));
+}
+
+export function writeBuildReports(file: string, builds: {target: string, result: BuildResult, error: Error}[], log: {warnings: string[], errors: string[]}): void {
+	let report = {
+		success: builds.every((build) => build.error === null),
+		targets: builds.map((build) => {
+			let targetReport = createBuildReport(build.result, build.error);
+			targetReport.target = build.target;
+			return targetReport;
+		}),
+		warnings: log.warnings,
+		errors: log.errors
+	};
+	fs.outputFileSync(path.resolve(file), JSON.stringify(report, null, '\t'));
+}
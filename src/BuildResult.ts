@@ -0,0 +1,44 @@
+import {Asset} from './AssetConverter';
+import {CompiledShader} from './ShaderCompiler';
+
+export class BuildResult {
+	name: string;
+	target: string;
+	sysdir: string;
+	to: string;
+	outputDirectory: string;
+	resourceDirectory: string;
+	buildDirectory: string;
+	assets: Asset[];
+	shaders: CompiledShader[];
+	hxml: string;
+	korefile: string;
+	haxeOutput: string;
+	nativeProject: string;
+	executable: string;
+	exitCode: number;
+	phases: {name: string, duration: number}[];
+	warnings: string[];
+	errors: string[];
+
+	constructor() {
+		this.name = '';
+		this.target = '';
+		this.sysdir = '';
+		this.to = '';
+		this.outputDirectory = '';
+		this.resourceDirectory = '';
+		this.buildDirectory = '';
+		this.assets = [];
+		this.shaders = [];
+		this.hxml = null;
+		this.korefile = null;
+		this.haxeOutput = null;
+		this.nativeProject = null;
+		this.executable = null;
+		this.exitCode = null;
+		this.phases = [];
+		this.warnings = [];
+		this.errors = [];
+	}
+}
@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {InvalidOptionError} from './KhamakeError';
+import {convertOption, findOption, optionNames} from './Options';
+import {suggest} from './suggest';
+
+// Option defaults can come from (in order of increasing precedence)
+// ~/.khamake.json, khamake.json in the project directory,
+// KHAMAKE_* environment variables and finally the command line.
+
+export function userConfigPath(): string {
+	return path.join(os.homedir(), '.khamake.json');
+}
+
+export function projectConfigPath(from: string): string {
+	return path.join(from, 'khamake.json');
+}
+
+// parallelAssetConversion becomes KHAMAKE_PARALLEL_ASSET_CONVERSION
+export function environmentName(option: string): string {
+	return 'KHAMAKE_' + option.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/-/g, '_').toUpperCase();
+}
+
+export function readConfigFile(file: string): any {
+	if (!fs.existsSync(file)) return {};
+
+	let config: any;
+	try {
+		config = JSON.parse(fs.readFileSync(file, 'utf8'));
+	}
+	catch (error) {
+		throw new InvalidOptionError('Could not parse ' + file + ': ' + error.message, { file: file });
+	}
+	if (config === null || typeof config !== 'object' || Array.isArray(config)) {
+		throw new InvalidOptionError(file + ' has to contain a JSON object.', { file: file });
+	}
+
+	let values: any = {};
+	for (let key in config) {
+		if (findOption(key) === null) {
+			let suggestion = suggest(key, optionNames());
+			throw new InvalidOptionError('Unknown option "' + key + '" in ' + file + '.' + (suggestion ? ' Did you mean "' + suggestion + '"?' : ''), { file: file });
+		}
+		try {
+			values[key] = convertOption(key, config[key]);
+		}
+		catch (error) {
+			throw new InvalidOptionError(error.message + ' (in ' + file + ')', { file: file });
+		}
+	}
+	return values;
+}
+
+export function readEnvironment(env: any): any {
+	let values: any = {};
+	for (let name of optionNames()) {
+		let value = env[environmentName(name)];
+		if (value === undefined) continue;
+		try {
+			values[name] = convertOption(name, value);
+		}
+		catch (error) {
+			throw new InvalidOptionError(error.message + ' (in ' + environmentName(name) + ')');
+		}
+	}
+	return values;
+}
@@ -1,19 +1,25 @@
 import * as child_process from 'child_process';
 import * as fs from 'fs';
+import {cacheFor} from './BuildCache';
+import * as dryrun from './DryRun';
+import {ToolNotFoundError} from './KhamakeError';
 import * as log from './log';
 
 export function convert(inFilename: string, outFilename: string, encoder: string, args: Array<string> = null): Promise<boolean> {
 	return new Promise((resolve, reject) => {
-		if (fs.existsSync(outFilename.toString()) && fs.statSync(outFilename.toString()).mtime.getTime() > fs.statSync(inFilename.toString()).mtime.getTime()) {
-			resolve(true);
+		if (!encoder) {
+			// Files converted before the encoder went missing are still used
+			resolve(fs.existsSync(outFilename.toString()) && fs.statSync(outFilename.toString()).mtime.getTime() > fs.statSync(inFilename.toString()).mtime.getTime());
 			return;
 		}
-		
-		if (!encoder) {
-			resolve(false);
+
+		let cache = cacheFor(outFilename);
+		let key = cache !== null ? cache.key(inFilename, encoder, { args: args }) : null;
+		if (cache !== null && cache.isFresh(outFilename, key)) {
+			resolve(true);
 			return;
 		}
-		
+
 		let dirend = Math.max(encoder.lastIndexOf('/'), encoder.lastIndexOf('\\'));
 		let firstspace = encoder.indexOf(' ', dirend);
 		let exe = encoder.substr(0, firstspace);
@@ -37,9 +43,23 @@ export function convert(inFilename: string, outFilename: string, encoder: string
 			else options.push(parts[i]);
 		}
 
+		if (dryrun.get()) {
+			dryrun.command(exe, options);
+			resolve(true);
+			return;
+		}
+
 		let process = child_process.spawn(exe, options);
+		let spawnError: Error = null;
+		process.on('error', (error: Error) => {
+			spawnError = error;
+		});
 		process.on('close', (code: number) => {
-			resolve(code === 0);
+			if (spawnError) reject(new ToolNotFoundError('Could not start ' + exe + ': ' + spawnError.message, { file: inFilename, cause: spawnError }));
+			else {
+				if (code === 0 && cache !== null) cache.store(outFilename, key);
+				resolve(code === 0);
+			}
 		});
 	});
 }
@@ -0,0 +1,34 @@
+import * as log from './log';
+
+let enabled = false;
+
+export function init(options: any) {
+	enabled = !!options['dry-run'];
+}
+
+export function get(): boolean {
+	return enabled;
+}
+
+function quote(arg: string): string {
+	if (arg === '' || /[\s"']/.test(arg)) return '"' + arg.replace(/"/g, '\\"') + '"';
+	return arg;
+}
+
+export function command(exe: string, args: string[], cwd: string = null) {
+	let line = '[run] ' + [exe].concat(args).map(quote).join(' ');
+	if (cwd) line += ' (in ' + cwd + ')';
+	log.info(line);
+}
+
+export function write(file: string) {
+	log.info('[write] ' + file);
+}
+
+export function copy(from: string, to: string) {
+	log.info('[copy] ' + from + ' -> ' + to);
+}
+
+export function remove(file: string) {
+	log.info('[remove] ' + file);
+}
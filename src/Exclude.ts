@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Matches globs the same way chokidar's ignored option does
+const anymatch: (patterns: string[], file: string) => boolean = require('anymatch');
+
+export const ignoreFileName = '.khaignore';
+
+/**
+ * Turns exclude globs into absolute ones. Relative globs are relative to base
+ * and like in a .gitignore globs without a slash match in every directory.
+ */
+export function excludePatterns(base: string, exclude: string | string[]): string[] {
+	if (!exclude) return [];
+	let patterns = typeof exclude === 'string' ? [exclude] : exclude;
+	base = path.resolve(base).replace(/\\/g, '/');
+	if (!base.endsWith('/')) base += '/';
+	return patterns.map((pattern) => {
+		pattern = pattern.replace(/\\/g, '/');
+		if (pattern.endsWith('/')) pattern += '**';
+		if (path.isAbsolute(pattern)) return pattern;
+		if (pattern.indexOf('/') < 0) return base + '**/' + pattern;
+		return base + pattern.replace(/^\.\//, '');
+	});
+}
+
+/**
+ * The globs of the .khaignore file in directory, one per line, # starts a comment.
+ */
+export function readIgnoreFile(directory: string): string[] {
+	let file = path.join(directory, ignoreFileName);
+	if (!fs.existsSync(file)) return [];
+	let lines = fs.readFileSync(file, 'utf8').split(/\r?\n/).map((line) => line.trim()).filter((line) => line !== '' && !line.startsWith('#'));
+	return excludePatterns(directory, lines);
+}
+
+export function isExcluded(file: string, patterns: string[]): boolean {
+	return patterns.length > 0 && anymatch(patterns, path.resolve(file).replace(/\\/g, '/'));
+}
+
+/**
+ * What to pass as chokidar's ignored option for a matcher with the given options.
+ */
+export function ignoredFiles(options: any): (string | RegExp)[] {
+	let ignored: (string | RegExp)[] = [/[\/\\]\.git/];
+	return options && options.exclude ? ignored.concat(options.exclude) : ignored;
+}
+
+/**
+ * Whether a source directory is excluded as a whole, then it is left out of the class paths.
+ */
+export function isExcludedDirectory(directory: string, patterns: string[]): boolean {
+	return patterns.length > 0 && anymatch(patterns, path.resolve(directory).replace(/\\/g, '/') + '/');
+}
+
+// Files outside of the part of a glob before its first wildcard can not match it
+function reaches(directory: string, pattern: string): boolean {
+	let wildcard = pattern.search(/[*?[\]{}()!+@]/);
+	let prefix = wildcard < 0 ? pattern : pattern.substr(0, wildcard);
+	prefix = prefix.substr(0, prefix.lastIndexOf('/') + 1);
+	let dir = path.resolve(directory).replace(/\\/g, '/') + '/';
+	return dir.startsWith(prefix) || prefix.startsWith(dir);
+}
+
+// Only descends into directories some pattern can reach
+function findExcludedFiles(directory: string, patterns: string[], files: string[]): void {
+	for (let name of fs.readdirSync(directory)) {
+		let file = path.join(directory, name);
+		if (fs.statSync(file).isDirectory()) {
+			let reaching = patterns.filter((pattern) => reaches(file, pattern));
+			if (reaching.length > 0) findExcludedFiles(file, reaching, files);
+		}
+		else if (name.endsWith('.hx') && isExcluded(file, patterns)) {
+			files.push(file);
+		}
+	}
+}
+
+/**
+ * Haxe can not leave files of a class path out, instead the excluded modules are passed to Compiler.exclude.
+ * That keeps them out of the output only, Haxe still types an excluded module when other code imports it.
+ */
+export function excludeParameters(sources: string[], patterns: string[]): string[] {
+	if (patterns.length === 0) return [];
+	let parameters: string[] = [];
+	for (let source of sources) {
+		let reaching = patterns.filter((pattern) => reaches(source, pattern));
+		if (reaching.length === 0 || !fs.existsSync(source) || !fs.statSync(source).isDirectory()) continue;
+		let files: string[] = [];
+		findExcludedFiles(source, reaching, files);
+		for (let file of files) {
+			let module = path.relative(source, file).replace(/\.hx$/, '').split(path.sep).join('.');
+			let parameter = '--macro exclude(\'' + module + '\')';
+			if (parameters.indexOf(parameter) < 0) parameters.push(parameter);
+		}
+	}
+	return parameters;
+}
@@ -86,56 +86,56 @@ export class AndroidExporter extends KhaExporter {
 		let indir = path.join(__dirname, '..', '..', 'Data', 'android');
 		let outdir = path.join(this.options.to, this.sysdir(), safename);
 
-		fs.copySync(path.join(indir, 'gitignore'), path.join(outdir, '.gitignore'));
-		fs.copySync(path.join(indir, 'build.gradle'), path.join(outdir, 'build.gradle'));
-		fs.copySync(path.join(indir, 'gradle.properties'), path.join(outdir, 'gradle.properties'));
-		fs.copySync(path.join(indir, 'gradlew'), path.join(outdir, 'gradlew'));
-		fs.copySync(path.join(indir, 'gradlew.bat'), path.join(outdir, 'gradlew.bat'));
-		fs.copySync(path.join(indir, 'settings.gradle'), path.join(outdir, 'settings.gradle'));
+		this.copyFile(path.join(indir, 'gitignore'), path.join(outdir, '.gitignore'));
+		this.copyFile(path.join(indir, 'build.gradle'), path.join(outdir, 'build.gradle'));
+		this.copyFile(path.join(indir, 'gradle.properties'), path.join(outdir, 'gradle.properties'));
+		this.copyFile(path.join(indir, 'gradlew'), path.join(outdir, 'gradlew'));
+		this.copyFile(path.join(indir, 'gradlew.bat'), path.join(outdir, 'gradlew.bat'));
+		this.copyFile(path.join(indir, 'settings.gradle'), path.join(outdir, 'settings.gradle'));
 
-		fs.copySync(path.join(indir, 'app', 'gitignore'), path.join(outdir, 'app', '.gitignore'));
+		this.copyFile(path.join(indir, 'app', 'gitignore'), path.join(outdir, 'app', '.gitignore'));
 
 		let gradle = fs.readFileSync(path.join(indir, 'app', 'build.gradle'), {encoding: 'utf8'});
 		gradle = gradle.replace(/{package}/g, targetOptions.package);
-		fs.writeFileSync(path.join(outdir, 'app', 'build.gradle'), gradle, {encoding: 'utf8'});
+		this.writeText(path.join(outdir, 'app', 'build.gradle'), gradle);
 
-		fs.copySync(path.join(indir, 'app', 'proguard-rules.pro'), path.join(outdir, 'app', 'proguard-rules.pro'));
+		this.copyFile(path.join(indir, 'app', 'proguard-rules.pro'), path.join(outdir, 'app', 'proguard-rules.pro'));
 
-		fs.ensureDirSync(path.join(outdir, 'app', 'src'));
+		this.createDirectory(path.join(outdir, 'app', 'src'));
 		// fs.emptyDirSync(path.join(outdir, 'app', 'src'));
 
 		let manifest = fs.readFileSync(path.join(indir, 'main', 'AndroidManifest.xml'), {encoding: 'utf8'});
 		manifest = manifest.replace(/{package}/g, targetOptions.package);
 		manifest = manifest.replace(/{screenOrientation}/g, targetOptions.screenOrientation);
 		manifest = manifest.replace(/{permissions}/g, targetOptions.permissions.map(function(p) { return '\n\t<uses-permission android:name="' + p + '"/>'; }).join(''));
-		fs.ensureDirSync(path.join(outdir, 'app', 'src', 'main'));
-		fs.writeFileSync(path.join(outdir, 'app', 'src', 'main', 'AndroidManifest.xml'), manifest, {encoding: 'utf8'});
+		this.createDirectory(path.join(outdir, 'app', 'src', 'main'));
+		this.writeText(path.join(outdir, 'app', 'src', 'main', 'AndroidManifest.xml'), manifest);
 
-		fs.ensureDirSync(path.join(outdir, 'app', 'src', 'main', 'res', 'values'));
+		this.createDirectory(path.join(outdir, 'app', 'src', 'main', 'res', 'values'));
 		let strings = fs.readFileSync(path.join(indir, 'main', 'res', 'values', 'strings.xml'), {encoding: 'utf8'});
 		strings = strings.replace(/{name}/g, name);
-		fs.writeFileSync(path.join(outdir, 'app', 'src', 'main', 'res', 'values', 'strings.xml'), strings, {encoding: 'utf8'});
-
-		fs.ensureDirSync(path.join(outdir, 'app', 'src', 'main', 'res', 'mipmap-hdpi'));
-		exportImage(this.options.kha, findIcon(from, this.options), path.join(this.options.to, this.sysdir(), safename, 'app', 'src', 'main', 'res', 'mipmap-hdpi', 'ic_launcher'), {width: 72, height: 72}, 'png', false, false, {});
-		fs.ensureDirSync(path.join(outdir, 'app', 'src', 'main', 'res', 'mipmap-mdpi'));
-		exportImage(this.options.kha, findIcon(from, this.options), path.join(this.options.to, this.sysdir(), safename, 'app', 'src', 'main', 'res', 'mipmap-mdpi', 'ic_launcher'), {width: 48, height: 48}, 'png', false, false, {});
-		fs.ensureDirSync(path.join(outdir, 'app', 'src', 'main', 'res', 'mipmap-xhdpi'));
-		exportImage(this.options.kha, findIcon(from, this.options), path.join(this.options.to, this.sysdir(), safename, 'app', 'src', 'main', 'res', 'mipmap-xhdpi', 'ic_launcher'), {width: 96, height: 96}, 'png', false, false, {});
-		fs.ensureDirSync(path.join(outdir, 'app', 'src', 'main', 'res', 'mipmap-xxhdpi'));
-		exportImage(this.options.kha, findIcon(from, this.options), path.join(this.options.to, this.sysdir(), safename, 'app', 'src', 'main', 'res', 'mipmap-xxhdpi', 'ic_launcher'), {width: 144, height: 144}, 'png', false, false, {});
-		fs.ensureDirSync(path.join(outdir, 'app', 'src', 'main', 'res', 'mipmap-xxxhdpi'));
-		exportImage(this.options.kha, findIcon(from, this.options), path.join(this.options.to, this.sysdir(), safename, 'app', 'src', 'main', 'res', 'mipmap-xxxhdpi', 'ic_launcher'), {width: 192, height: 192}, 'png', false, false, {});
-
-		fs.copySync(path.join(indir, 'gradle', 'wrapper', 'gradle-wrapper.jar'), path.join(outdir, 'gradle', 'wrapper', 'gradle-wrapper.jar'));
-		fs.copySync(path.join(indir, 'gradle', 'wrapper', 'gradle-wrapper.properties'), path.join(outdir, 'gradle', 'wrapper', 'gradle-wrapper.properties'));
-
-		fs.copySync(path.join(indir, 'idea', 'compiler.xml'), path.join(outdir, '.idea', 'compiler.xml'));
-		fs.copySync(path.join(indir, 'idea', 'gradle.xml'), path.join(outdir, '.idea', 'gradle.xml'));
-		fs.copySync(path.join(indir, 'idea', 'misc.xml'), path.join(outdir, '.idea', 'misc.xml'));
-
-		fs.copySync(path.join(indir, 'idea', 'runConfigurations.xml'), path.join(outdir, '.idea', 'runConfigurations.xml'));
-		fs.copySync(path.join(indir, 'idea', 'copyright', 'profiles_settings.xml'), path.join(outdir, '.idea', 'copyright', 'profiles_settings.xml'));
+		this.writeText(path.join(outdir, 'app', 'src', 'main', 'res', 'values', 'strings.xml'), strings);
+
+		this.createDirectory(path.join(outdir, 'app', 'src', 'main', 'res', 'mipmap-hdpi'));
+		exportImage(this.options.kha, findIcon(from, this.options), path.join(this.options.to, this.sysdir(), safename, 'app', 'src', 'main', 'res', 'mipmap-hdpi', 'ic_launcher'), {width: 72, height: 72}, 'png', false, false);
+		this.createDirectory(path.join(outdir, 'app', 'src', 'main', 'res', 'mipmap-mdpi'));
+		exportImage(this.options.kha, findIcon(from, this.options), path.join(this.options.to, this.sysdir(), safename, 'app', 'src', 'main', 'res', 'mipmap-mdpi', 'ic_launcher'), {width: 48, height: 48}, 'png', false, false);
+		this.createDirectory(path.join(outdir, 'app', 'src', 'main', 'res', 'mipmap-xhdpi'));
+		exportImage(this.options.kha, findIcon(from, this.options), path.join(this.options.to, this.sysdir(), safename, 'app', 'src', 'main', 'res', 'mipmap-xhdpi', 'ic_launcher'), {width: 96, height: 96}, 'png', false, false);
+		this.createDirectory(path.join(outdir, 'app', 'src', 'main', 'res', 'mipmap-xxhdpi'));
+		exportImage(this.options.kha, findIcon(from, this.options), path.join(this.options.to, this.sysdir(), safename, 'app', 'src', 'main', 'res', 'mipmap-xxhdpi', 'ic_launcher'), {width: 144, height: 144}, 'png', false, false);
+		this.createDirectory(path.join(outdir, 'app', 'src', 'main', 'res', 'mipmap-xxxhdpi'));
+		exportImage(this.options.kha, findIcon(from, this.options), path.join(this.options.to, this.sysdir(), safename, 'app', 'src', 'main', 'res', 'mipmap-xxxhdpi', 'ic_launcher'), {width: 192, height: 192}, 'png', false, false);
+
+		this.copyFile(path.join(indir, 'gradle', 'wrapper', 'gradle-wrapper.jar'), path.join(outdir, 'gradle', 'wrapper', 'gradle-wrapper.jar'));
+		this.copyFile(path.join(indir, 'gradle', 'wrapper', 'gradle-wrapper.properties'), path.join(outdir, 'gradle', 'wrapper', 'gradle-wrapper.properties'));
+
+		this.copyFile(path.join(indir, 'idea', 'compiler.xml'), path.join(outdir, '.idea', 'compiler.xml'));
+		this.copyFile(path.join(indir, 'idea', 'gradle.xml'), path.join(outdir, '.idea', 'gradle.xml'));
+		this.copyFile(path.join(indir, 'idea', 'misc.xml'), path.join(outdir, '.idea', 'misc.xml'));
+
+		this.copyFile(path.join(indir, 'idea', 'runConfigurations.xml'), path.join(outdir, '.idea', 'runConfigurations.xml'));
+		this.copyFile(path.join(indir, 'idea', 'copyright', 'profiles_settings.xml'), path.join(outdir, '.idea', 'copyright', 'profiles_settings.xml'));
 	}
 
 	/*copyMusic(platform, from, to, encoders, callback) {
@@ -147,27 +147,31 @@ export class AndroidExporter extends KhaExporter {
 
 	async copySound(platform: string, from: string, to: string, options: any) {
 		if (options.quality < 1) {
-			fs.ensureDirSync(path.join(this.options.to, this.sysdir(), this.safename, 'app', 'src', 'main', 'assets', path.dirname(to)));
+			this.createDirectory(path.join(this.options.to, this.sysdir(), this.safename, 'app', 'src', 'main', 'assets', path.dirname(to)));
 			let ogg = await convert(from, path.join(this.options.to, this.sysdir(), this.safename, 'app', 'src', 'main', 'assets', to + '.ogg'), this.options.ogg);
 			return [to + '.ogg'];
 		}
 		else {
-			fs.copySync(from.toString(), path.join(this.options.to, this.sysdir(), this.safename, 'app', 'src', 'main', 'assets', to + '.wav'), { overwrite: true });
+			this.copyFile(from, path.join(this.options.to, this.sysdir(), this.safename, 'app', 'src', 'main', 'assets', to + '.wav'));
 			return [to + '.wav'];
 		}
 	}
 
-	async copyImage(platform: string, from: string, to: string, asset: any, cache: any) {
-		let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), this.safename, 'app', 'src', 'main', 'assets', to), asset, undefined, false, false, cache);
+	async copyImage(platform: string, from: string, to: string, asset: any) {
+		let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), this.safename, 'app', 'src', 'main', 'assets', to), asset, undefined, false, false);
 		return [to + '.' + format];
 	}
 
 	async copyBlob(platform: string, from: string, to: string) {
-		fs.copySync(from.toString(), path.join(this.options.to, this.sysdir(), this.safename, 'app', 'src', 'main', 'assets', to), { overwrite: true });
+		this.copyFile(from, path.join(this.options.to, this.sysdir(), this.safename, 'app', 'src', 'main', 'assets', to));
 		return [to];
 	}
 
 	async copyVideo(platform: string, from: string, to: string) {
 		return [to];
 	}
+
+	assetFiles(kind: string, files: string[]): string[] {
+		return files.map((file) => path.join(this.options.to, this.sysdir(), this.safename, 'app', 'src', 'main', 'assets', file));
+	}
 }
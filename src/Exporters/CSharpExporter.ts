@@ -1,6 +1,7 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import {KhaExporter} from './KhaExporter';
+import * as dryrun from '../DryRun';
 import {convert} from '../Converter';
 import {executeHaxe} from '../Haxe';
 import {Options} from '../Options';
@@ -11,7 +12,7 @@ const uuid = require('uuid');
 export abstract class CSharpExporter extends KhaExporter {
 	constructor(options: Options) {
 		super(options);
-		fs.removeSync(path.join(this.options.to, this.sysdir() + '-build', 'Sources'));
+		if (!dryrun.get()) fs.removeSync(path.join(this.options.to, this.sysdir() + '-build', 'Sources'));
 	}
 
 	includeFiles(dir: string, baseDir: string) {
@@ -69,7 +70,7 @@ export abstract class CSharpExporter extends KhaExporter {
 	}
 
 	exportSLN(projectUuid: string) {
-		fs.ensureDirSync(path.join(this.options.to, this.sysdir() + '-build'));
+		this.createDirectory(path.join(this.options.to, this.sysdir() + '-build'));
 		this.writeFile(path.join(this.options.to, this.sysdir() + '-build', 'Project.sln'));
 		const solutionUuid = uuid.v4();
 
@@ -105,13 +106,13 @@ export abstract class CSharpExporter extends KhaExporter {
 		return [to];
 	}
 
-	async copyImage(platform: string, from: string, to: string, asset: any, cache: any) {
-		let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), asset, undefined, false, false, cache);
+	async copyImage(platform: string, from: string, to: string, asset: any) {
+		let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), asset, undefined, false, false);
 		return [to + '.' + format];
 	}
 
 	async copyBlob(platform: string, from: string, to: string) {
-		fs.copySync(from, path.join(this.options.to, this.sysdir(), to), { overwrite: true });
+		this.copyFile(from, path.join(this.options.to, this.sysdir(), to));
 		return [to];
 	}
 
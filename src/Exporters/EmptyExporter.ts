@@ -3,6 +3,7 @@ import * as fs from 'fs-extra';
 import * as path from 'path';
 import {KhaExporter} from './KhaExporter';
 import {convert} from '../Converter';
+import * as dryrun from '../DryRun';
 import {executeHaxe} from '../Haxe';
 import {Options} from '../Options';
 import {exportImage} from '../ImageTool';
@@ -51,12 +52,19 @@ export class EmptyExporter extends KhaExporter {
 	}
 
 	async export(name: string, _targetOptions: any, haxeOptions: any): Promise<void> {
-		fs.ensureDirSync(path.join(this.options.to, this.sysdir()));
+		this.createDirectory(path.join(this.options.to, this.sysdir()));
+
+		let doxArgs = ['run', 'dox', '-in', 'kha.*', '-i', path.join('build', this.sysdir(), 'docs.xml')];
+		if (dryrun.get()) {
+			dryrun.command('haxe', ['project-' + this.sysdir() + '.hxml'], this.options.to);
+			dryrun.command('haxelib', doxArgs, this.options.from);
+			return;
+		}
 
 		try {
 			// Remove any @:export first
 			await executeHaxe(this.options.to, this.options.haxe, ['project-' + this.sysdir() + '.hxml']);
-			let doxresult = child_process.spawnSync('haxelib', ['run', 'dox', '-in', 'kha.*', '-i', path.join('build', this.sysdir(), 'docs.xml')], { env: process.env, cwd: path.normalize(this.options.from) });
+			let doxresult = child_process.spawnSync('haxelib', doxArgs, { env: process.env, cwd: path.normalize(this.options.from) });
 			if (doxresult.stdout.toString() !== '') {
 				log.info(doxresult.stdout.toString());
 			}
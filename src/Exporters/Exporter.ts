@@ -1,4 +1,5 @@
 import * as fs from 'fs-extra';
+import * as dryrun from '../DryRun';
 
 export class Exporter {
 	out: number;
@@ -7,15 +8,23 @@ export class Exporter {
 
 	}
 
+	// In dry-run mode the file is only listed and p() writes nowhere
 	writeFile(file: string) {
+		if (dryrun.get()) {
+			dryrun.write(file);
+			this.out = null;
+			return;
+		}
 		this.out = fs.openSync(file, 'w');
 	}
 
 	closeFile() {
+		if (this.out === null) return;
 		fs.closeSync(this.out);
 	}
 
 	p(line: string = '', indent: number = 0) {
+		if (this.out === null) return;
 		let tabs = '';
 		for (let i = 0; i < indent; ++i) tabs += '\t';
 		let data = Buffer.from(tabs + line + '\n');
@@ -23,14 +32,31 @@ export class Exporter {
 	}
 
 	copyFile(from: string, to: string) {
+		if (dryrun.get()) {
+			dryrun.copy(from, to);
+			return;
+		}
 		fs.copySync(from, to, { overwrite: true });
 	}
 
 	copyDirectory(from: string, to: string) {
+		if (dryrun.get()) {
+			dryrun.copy(from, to);
+			return;
+		}
 		fs.copySync(from, to, { overwrite: true });
 	}
 
+	writeText(file: string, text: string) {
+		if (dryrun.get()) {
+			dryrun.write(file);
+			return;
+		}
+		fs.writeFileSync(file, text);
+	}
+
 	createDirectory(dir: string) {
+		if (dryrun.get()) return;
 		fs.ensureDirSync(dir);
 	}
 }
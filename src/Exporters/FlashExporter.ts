@@ -119,25 +119,25 @@ export class FlashExporter extends KhaExporter {
 	}
 
 	async copySound(platform: string, from: string, to: string) {
-		fs.ensureDirSync(path.join(this.options.to, this.sysdir(), path.dirname(to)));
+		this.createDirectory(path.join(this.options.to, this.sysdir(), path.dirname(to)));
 		await convert(from, path.join(this.options.to, this.sysdir(), to + '.mp3'), this.options.mp3);
 		return [to + '.mp3'];
 	}
 
-	async copyImage(platform: string, from: string, to: string, asset: any, cache: any) {
-		let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), asset, undefined, false, false, cache);
+	async copyImage(platform: string, from: string, to: string, asset: any) {
+		let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), asset, undefined, false, false);
 		if (this.options.embedflashassets) this.images.push(to + '.' + format);
 		return [to + '.' + format];
 	}
 
 	async copyBlob(platform: string, from: string, to: string) {
-		fs.copySync(from.toString(), path.join(this.options.to, this.sysdir(), to), { overwrite: true });
+		this.copyFile(from, path.join(this.options.to, this.sysdir(), to));
 		if (this.options.embedflashassets) this.blobs.push(to);
 		return [to];
 	}
 
 	async copyVideo(platform: string, from: string, to: string) {
-		fs.ensureDirSync(path.join(this.options.to, this.sysdir(), path.dirname(to)));
+		this.createDirectory(path.join(this.options.to, this.sysdir(), path.dirname(to)));
 		await convert(from, path.join(this.options.to, this.sysdir(), to + '.mp4'), this.options.h264);
 		return [to + '.mp4'];
 	}
@@ -133,7 +133,7 @@ export class Html5Exporter extends KhaExporter {
 			if (userOptions.scriptName != null) targetOptions.scriptName = userOptions.scriptName;
 		}
 
-		fs.ensureDirSync(path.join(this.options.to, this.sysdir()));
+		this.createDirectory(path.join(this.options.to, this.sysdir()));
 
 		if (this.isDebugHtml5()) {
 			let index = path.join(this.options.to, this.sysdir(), 'index.html');
@@ -144,27 +144,27 @@ export class Html5Exporter extends KhaExporter {
 			protoindex = protoindex.replace(/{Height}/g, '' + this.height);
 			protoindex = protoindex.replace(/{CanvasId}/g, '' + targetOptions.canvasId);
 			protoindex = protoindex.replace(/{ScriptName}/g, '' + targetOptions.scriptName);
-			fs.writeFileSync(index.toString(), protoindex);
+			this.writeText(index.toString(), protoindex);
 
 			let pack = path.join(this.options.to, this.sysdir(), 'package.json');
 			let protopackage = fs.readFileSync(path.join(__dirname, '..', '..', 'Data', 'debug-html5', 'package.json'), {encoding: 'utf8'});
 			protopackage = protopackage.replace(/{Name}/g, name);
-			fs.writeFileSync(pack.toString(), protopackage);
+			this.writeText(pack.toString(), protopackage);
 
 			let electron = path.join(this.options.to, this.sysdir(), 'electron.js');
 			let protoelectron = fs.readFileSync(path.join(__dirname, '..', '..', 'Data', 'debug-html5', 'electron.js'), {encoding: 'utf8'});
 			protoelectron = protoelectron.replace(/{Width}/g, '' + this.width);
 			protoelectron = protoelectron.replace(/{Height}/g, '' + this.height);
-			fs.writeFileSync(electron.toString(), protoelectron);
+			this.writeText(electron.toString(), protoelectron);
 		}
 		else if (this.isNode()) {
 			let pack = path.join(this.options.to, this.sysdir(), 'package.json');
 			let protopackage = fs.readFileSync(path.join(__dirname, '..', '..', 'Data', 'node', 'package.json'), 'utf8');
 			protopackage = protopackage.replace(/{Name}/g, name);
-			fs.writeFileSync(pack, protopackage);
+			this.writeText(pack, protopackage);
 
 			let protoserver = fs.readFileSync(path.join(__dirname, '..', '..', 'Data', 'node', 'server.js'), 'utf8');
-			fs.writeFileSync(path.join(this.options.to, this.sysdir(), 'server.js'), protoserver);
+			this.writeText(path.join(this.options.to, this.sysdir(), 'server.js'), protoserver);
 		}
 		else if (!this.isHtml5Worker()) {
 			let index = path.join(this.options.to, this.sysdir(), 'index.html');
@@ -175,7 +175,7 @@ export class Html5Exporter extends KhaExporter {
 				protoindex = protoindex.replace(/{Height}/g, '' + this.height);
 				protoindex = protoindex.replace(/{CanvasId}/g, '' + targetOptions.canvasId);
 				protoindex = protoindex.replace(/{ScriptName}/g, '' + targetOptions.scriptName);
-				fs.writeFileSync(index.toString(), protoindex);
+				this.writeText(index.toString(), protoindex);
 			}
 		}
 	}
@@ -193,7 +193,7 @@ export class Html5Exporter extends KhaExporter {
 	}*/
 
 	async copySound(platform: string, from: string, to: string,  options: any) {
-		fs.ensureDirSync(path.join(this.options.to, this.sysdir(), path.dirname(to)));
+		this.createDirectory(path.join(this.options.to, this.sysdir(), path.dirname(to)));
 		let ogg = await convert(from, path.join(this.options.to, this.sysdir(), to + '.ogg'), this.options.ogg);
 		let mp4 = false;
 		let mp3 = false;
@@ -210,18 +210,18 @@ export class Html5Exporter extends KhaExporter {
 		return files;
 	}
 
-	async copyImage(platform: string, from: string, to: string, options: any, cache: any) {
-		let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), options, undefined, false, false, cache);
+	async copyImage(platform: string, from: string, to: string, options: any) {
+		let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), options, undefined, false, false);
 		return [to + '.' + format];
 	}
 
 	async copyBlob(platform: string, from: string, to: string, options: any) {
-		fs.copySync(from.toString(), path.join(this.options.to, this.sysdir(), to), { overwrite: true });
+		this.copyFile(from, path.join(this.options.to, this.sysdir(), to));
 		return [to];
 	}
 
 	async copyVideo(platform: string, from: string, to: string, options: any) {
-		fs.ensureDirSync(path.join(this.options.to, this.sysdir(), path.dirname(to)));
+		this.createDirectory(path.join(this.options.to, this.sysdir(), path.dirname(to)));
 		let mp4 = false;
 		if (!this.isDebugHtml5()) {
 			mp4 = await convert(from, path.join(this.options.to, this.sysdir(), to + '.mp4'), this.options.h264);
@@ -1,6 +1,7 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import {KhaExporter} from './KhaExporter';
+import * as dryrun from '../DryRun';
 import {convert} from '../Converter';
 import {executeHaxe} from '../Haxe';
 import {Options} from '../Options';
@@ -14,7 +15,7 @@ export class JavaExporter extends KhaExporter {
 
 	haxeOptions(name: string, targetOptions: any, defines: Array<string>) {
 		const sources = path.join(this.options.to, this.sysdir(), 'Sources');
-		if (fs.existsSync(sources)) {
+		if (!dryrun.get() && fs.existsSync(sources)) {
 			fs.removeSync(sources);
 		}
 		
@@ -52,7 +53,7 @@ export class JavaExporter extends KhaExporter {
 	}
 
 	async export(name: string, targetOptions: any, haxeOptions: any): Promise<void> {
-		fs.ensureDirSync(path.join(this.options.to, this.sysdir()));
+		this.createDirectory(path.join(this.options.to, this.sysdir()));
 		this.exportEclipseProject();
 	}
 
@@ -97,17 +98,17 @@ export class JavaExporter extends KhaExporter {
 	}*/
 
 	async copySound(platform: string, from: string, to: string) {
-		fs.copySync(from.toString(), path.join(this.options.to, this.sysdir(), to + '.wav'), { overwrite: true });
+		this.copyFile(from, path.join(this.options.to, this.sysdir(), to + '.wav'));
 		return [to + '.wav'];
 	}
 
-	async copyImage(platform: string, from: string, to: string, asset: any, cache: any) {
-		let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), asset, undefined, false, false, cache);
+	async copyImage(platform: string, from: string, to: string, asset: any) {
+		let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), asset, undefined, false, false);
 		return [to + '.' + format];
 	}
 
 	async copyBlob(platform: string, from: string, to: string) {
-		fs.copySync(from.toString(), path.join(this.options.to, this.sysdir(), to), { overwrite: true });
+		this.copyFile(from, path.join(this.options.to, this.sysdir(), to));
 		return [to];
 	}
 
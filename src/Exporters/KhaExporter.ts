@@ -75,7 +75,7 @@ export abstract class KhaExporter extends Exporter {
 		}
 	}
 
-	async copyImage(platform: string, from: string, to: string, options: any, cache: any): Promise<Array<string>> {
+	async copyImage(platform: string, from: string, to: string, options: any): Promise<Array<string>> {
 		return [];
 	}
 
@@ -94,4 +94,12 @@ export abstract class KhaExporter extends Exporter {
 	async copyFont(platform: string, from: string, to: string, options: any): Promise<Array<string>> {
 		return await this.copyBlob(platform, from, to + '.ttf', options);
 	}
+
+	/**
+	 * Where the files returned by the copy functions were written to.
+	 * kind is the type of the asset or 'blob' when it was copied using copyBlob.
+	 */
+	assetFiles(kind: string, files: string[]): string[] {
+		return files.map((file) => path.join(this.options.to, this.sysdir(), file));
+	}
 }
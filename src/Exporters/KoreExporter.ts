@@ -2,6 +2,7 @@ import * as fs from 'fs-extra';
 import * as path from 'path';
 import {KhaExporter} from './KhaExporter';
 import {convert} from '../Converter';
+import {AssetConversionError} from '../KhamakeError';
 import {executeHaxe} from '../Haxe';
 import {GraphicsApi} from '../GraphicsApi';
 import {Platform} from '../Platform';
@@ -84,44 +85,44 @@ export class KoreExporter extends KhaExporter {
 
 	async copySound(platform: string, from: string, to: string, options: any) {
 		if (options.quality < 1) {
-			fs.ensureDirSync(path.join(this.options.to, this.sysdir(), path.dirname(to)));
+			this.createDirectory(path.join(this.options.to, this.sysdir(), path.dirname(to)));
 			await convert(from, path.join(this.options.to, this.sysdir(), to + '.ogg'), this.options.ogg);
 			return [to + '.ogg'];
 		}
 		else {
 			if (from.endsWith('.wav')) {
-				fs.copySync(from.toString(), path.join(this.options.to, this.sysdir(), to + '.wav'), { overwrite: true });
+				this.copyFile(from, path.join(this.options.to, this.sysdir(), to + '.wav'));
 			}
 			else {
-				throw 'Can not convert ' + from + ' to wav format.';
+				throw new AssetConversionError('Can not convert ' + from + ' to wav format.', { file: from });
 			}
 			return [to + '.wav'];
 		}
 	}
 
-	async copyImage(platform: string, from: string, to: string, options: any, cache: any) {
+	async copyImage(platform: string, from: string, to: string, options: any) {
 		if (platform === Platform.iOS && options.quality < 1) {
-			let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), options, 'pvr', true, false, cache);
+			let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), options, 'pvr', true, false);
 			return [to + '.' + format];
 		}
 		else if (platform === Platform.Windows && options.quality < 1 && (this.options.graphics === GraphicsApi.OpenGL || this.options.graphics === GraphicsApi.Vulkan)) {
-			// let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), options, 'ASTC', true, false, cache);
-			let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), options, 'DXT5', true, false, cache);
+			// let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), options, 'ASTC', true, false);
+			let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), options, 'DXT5', true, false);
 			return [to + '.' + format];
 		}
 		else {
-			let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), options, 'lz4', true, false, cache);
+			let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), options, 'lz4', true, false);
 			return [to + '.' + format];
 		}
 	}
 
 	async copyBlob(platform: string, from: string, to: string) {
-		fs.copySync(from.toString(), path.join(this.options.to, this.sysdir(), to), { overwrite: true });
+		this.copyFile(from, path.join(this.options.to, this.sysdir(), to));
 		return [to];
 	}
 
 	async copyVideo(platform: string, from: string, to: string) {
-		fs.ensureDirSync(path.join(this.options.to, this.sysdir(), path.dirname(to)));
+		this.createDirectory(path.join(this.options.to, this.sysdir(), path.dirname(to)));
 		if (platform === Platform.Windows) {
 			await convert(from, path.join(this.options.to, this.sysdir(), to + '.avi'), this.options.h264);
 			return [to + '.avi'];
@@ -78,39 +78,39 @@ export class KoreHLExporter extends KhaExporter {
 
 	async copySound(platform: string, from: string, to: string, options: any) {
 		if (options.quality < 1) {
-			fs.ensureDirSync(path.join(this.options.to, this.sysdir(), path.dirname(to)));
+			this.createDirectory(path.join(this.options.to, this.sysdir(), path.dirname(to)));
 			let ogg = await convert(from, path.join(this.options.to, this.sysdir(), to + '.ogg'), this.options.ogg);
 			return [to + '.ogg'];
 		}
 		else {
-			fs.copySync(from.toString(), path.join(this.options.to, this.sysdir(), to + '.wav'), { overwrite: true });
+			this.copyFile(from, path.join(this.options.to, this.sysdir(), to + '.wav'));
 			return [to + '.wav'];
 		}
 	}
 
-	async copyImage(platform: string, from: string, to: string, options: any, cache: any) {
+	async copyImage(platform: string, from: string, to: string, options: any) {
 		if (platform === Platform.iOS && options.quality < 1) {
-			let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), options, 'pvr', true, false, cache);
+			let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), options, 'pvr', true, false);
 			return [to + '.' + format];
 		}
 		else if (platform === Platform.Windows && options.quality < 1 && (this.options.graphics === GraphicsApi.OpenGL || this.options.graphics === GraphicsApi.Vulkan)) {
-			// let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), options, 'ASTC', true, false, cache);
-			let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), options, 'DXT5', true, false, cache);
+			// let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), options, 'ASTC', true, false);
+			let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), options, 'DXT5', true, false);
 			return [to + '.' + format];
 		}
 		else {
-			let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), options, 'lz4', true, false, cache);
+			let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), options, 'lz4', true, false);
 			return [to + '.' + format];
 		}
 	}
 
 	async copyBlob(platform: string, from: string, to: string) {
-		fs.copySync(from.toString(), path.join(this.options.to, this.sysdir(), to).toString(), { overwrite: true });
+		this.copyFile(from, path.join(this.options.to, this.sysdir(), to).toString());
 		return [to];
 	}
 
 	async copyVideo(platform: string, from: string, to: string) {
-		fs.ensureDirSync(path.join(this.options.to, this.sysdir(), path.dirname(to)));
+		this.createDirectory(path.join(this.options.to, this.sysdir(), path.dirname(to)));
 		if (platform === Platform.Windows) {
 			await convert(from, path.join(this.options.to, this.sysdir(), to + '.avi'), this.options.h264);
 			return [to + '.avi'];
@@ -62,33 +62,33 @@ export class KromExporter extends KhaExporter {
 	}
 
 	async export(name: string, targetOptions: any, haxeOptions: any): Promise<void> {
-		fs.ensureDirSync(path.join(this.options.to, this.sysdir()));
+		this.createDirectory(path.join(this.options.to, this.sysdir()));
 	}
 
 	async copySound(platform: string, from: string, to: string, options: any) {
 		if (options.quality < 1) {
-			fs.ensureDirSync(path.join(this.options.to, this.sysdir(), path.dirname(to)));
+			this.createDirectory(path.join(this.options.to, this.sysdir(), path.dirname(to)));
 			let ogg = await convert(from, path.join(this.options.to, this.sysdir(), to + '.ogg'), this.options.ogg);
 			return [to + '.ogg'];
 		}
 		else {
-			fs.copySync(from.toString(), path.join(this.options.to, this.sysdir(), to + '.wav'), { overwrite: true });
+			this.copyFile(from, path.join(this.options.to, this.sysdir(), to + '.wav'));
 			return [to + '.wav'];
 		}
 	}
 
-	async copyImage(platform: string, from: string, to: string, options: any, cache: any) {
-		let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), options, undefined, false, false, cache);
+	async copyImage(platform: string, from: string, to: string, options: any) {
+		let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), options, undefined, false, false);
 		return [to + '.' + format];
 	}
 
 	async copyBlob(platform: string, from: string, to: string) {
-		fs.copySync(from.toString(), path.join(this.options.to, this.sysdir(), to), { overwrite: true });
+		this.copyFile(from, path.join(this.options.to, this.sysdir(), to));
 		return [to];
 	}
 
 	async copyVideo(platform: string, from: string, to: string) {
-		fs.ensureDirSync(path.join(this.options.to, this.sysdir(), path.dirname(to)));
+		this.createDirectory(path.join(this.options.to, this.sysdir(), path.dirname(to)));
 		let webm = await convert(from, path.join(this.options.to, this.sysdir(), to + '.webm'), this.options.webm);
 		let files: string[] = [];
 		if (webm) files.push(to + '.webm');
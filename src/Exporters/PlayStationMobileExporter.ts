@@ -20,7 +20,7 @@ export class PlayStationMobileExporter extends CSharpExporter {
 	}
 
 	exportSLN(projectUuid: string) {
-		fs.ensureDirSync(path.join(this.options.to, this.sysdir() + '-build'));
+		this.createDirectory(path.join(this.options.to, this.sysdir() + '-build'));
 		this.writeFile(path.join(this.options.to, this.sysdir() + '-build', 'Project.sln'));
 		const solutionUuid = uuid.v4();
 
@@ -48,22 +48,22 @@ export class PlayStationMobileExporter extends CSharpExporter {
 
 	exportResources() {
 		this.createDirectory(path.join(this.options.to, this.sysdir() + '-build', 'shaders'));
-		fs.writeFileSync(path.join(this.options.to, this.sysdir() + '-build', 'shaders', 'Simple.fcg'),
+		this.writeText(path.join(this.options.to, this.sysdir() + '-build', 'shaders', 'Simple.fcg'),
 			'void main(float4 out Color : COLOR, uniform float4 MaterialColor) {\n'
 			+ '\tColor = MaterialColor;\n'
 			+ '}\n');
 
-		fs.writeFileSync(path.join(this.options.to, this.sysdir() + '-build', 'shaders', 'Simple.vcg'),
+		this.writeText(path.join(this.options.to, this.sysdir() + '-build', 'shaders', 'Simple.vcg'),
 			'void main(float4 in a_Position : POSITION, float4 out v_Position : POSITION, uniform float4x4 WorldViewProj) {\n'
 			+ '\tv_Position = mul(a_Position, WorldViewProj);\n'
 			+ '}\n');
 
-		fs.writeFileSync(path.join(this.options.to, this.sysdir() + '-build', 'shaders', 'Texture.fcg'),
+		this.writeText(path.join(this.options.to, this.sysdir() + '-build', 'shaders', 'Texture.fcg'),
 			'void main(float2 in  v_TexCoord : TEXCOORD0, float4 out Color : COLOR, uniform sampler2D Texture0 : TEXUNIT0) {\n'
 			+ '\tColor = tex2D(Texture0, v_TexCoord);\n'
 			+ '}\n');
 
-		fs.writeFileSync(path.join(this.options.to, this.sysdir() + '-build', 'shaders', 'Texture.vcg'),
+		this.writeText(path.join(this.options.to, this.sysdir() + '-build', 'shaders', 'Texture.vcg'),
 			'void main(float4 in a_Position : POSITION, float2 in a_TexCoord : TEXCOORD0, float4 out v_Position : POSITION, float2 out v_TexCoord : TEXCOORD0, uniform float4x4 WorldViewProj) {\n'
 			+ '\tv_Position = mul(a_Position, WorldViewProj);\n'
 			+ '\tv_TexCoord  = a_TexCoord;\n'
@@ -72,7 +72,7 @@ export class PlayStationMobileExporter extends CSharpExporter {
 		let appxml = path.join(this.options.to, this.sysdir() + '-build', 'app.xml');
 		if (!fs.existsSync(appxml)) {
 			let appxmltext = fs.readFileSync(path.join(__dirname, 'Data', 'psm', 'app.xml'), {encoding: 'utf8'});
-			fs.writeFileSync(appxml.toString(), appxmltext);
+			this.writeText(appxml.toString(), appxmltext);
 		}
 	}
 
@@ -147,14 +147,14 @@ export class PlayStationMobileExporter extends CSharpExporter {
 		return [''];
 	}
 
-	async copyImage(platform: string, from: string, to: string, asset: any, cache: any) {
+	async copyImage(platform: string, from: string, to: string, asset: any) {
 		this.files.push(asset['file']);
-		let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), asset, undefined, false, false, cache);
+		let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), to), asset, undefined, false, false);
 		return [to + '.' + format];
 	}
 
 	async copyBlob(platform: string, from: string, to: string) {
-		fs.copySync(from.toString(), path.join(this.options.to, this.sysdir(), to), { overwrite: true });
+		this.copyFile(from, path.join(this.options.to, this.sysdir(), to));
 		this.files.push(to);
 		return [to];
 	}
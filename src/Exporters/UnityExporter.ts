@@ -2,6 +2,7 @@ import * as fs from 'fs-extra';
 import * as path from 'path';
 import {KhaExporter} from './KhaExporter';
 import {convert} from '../Converter';
+import * as dryrun from '../DryRun';
 import {executeHaxe} from '../Haxe';
 import {Options} from '../Options';
 import {exportImage} from '../ImageTool';
@@ -19,7 +20,7 @@ export class UnityExporter extends KhaExporter {
 
 	haxeOptions(name: string, targetOptions: any, defines: Array<string>) {
 		const sources = path.join(this.options.to, this.sysdir(), 'Assets', 'Sources');
-		if (fs.existsSync(sources)) {
+		if (!dryrun.get() && fs.existsSync(sources)) {
 			fs.removeSync(sources);
 		}
 
@@ -62,10 +63,10 @@ export class UnityExporter extends KhaExporter {
 	async export(name: string, targetOptions: any, haxeOptions: any): Promise<void> {
 		let copyDirectory = (from: string, to: string) => {
 			let files = fs.readdirSync(path.join(__dirname, '..', '..', 'Data', 'unity', from));
-			fs.ensureDirSync(path.join(this.options.to, this.sysdir(), to));
+			this.createDirectory(path.join(this.options.to, this.sysdir(), to));
 			for (let file of files) {
 				let text = fs.readFileSync(path.join(__dirname, '..', '..', 'Data', 'unity', from, file), 'utf8');
-				fs.writeFileSync(path.join(this.options.to, this.sysdir(), to, file), text);
+				this.writeText(path.join(this.options.to, this.sysdir(), to, file), text);
 			}
 		};
 		copyDirectory('Assets', 'Assets');
@@ -82,17 +83,29 @@ export class UnityExporter extends KhaExporter {
 		return [to + '.ogg'];
 	}
 
-	async copyImage(platform: string, from: string, to: string, asset: any, cache: any) {
-		let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), 'Assets', 'Resources', 'Images', to), asset, undefined, false, true, cache);
+	async copyImage(platform: string, from: string, to: string, asset: any) {
+		let format = await exportImage(this.options.kha, from, path.join(this.options.to, this.sysdir(), 'Assets', 'Resources', 'Images', to), asset, undefined, false, true);
 		return [to + '.' + format];
 	}
 
 	async copyBlob(platform: string, from: string, to: string) {
-		fs.copySync(from.toString(), path.join(this.options.to, this.sysdir(), 'Assets', 'Resources', 'Blobs', to + '.bytes'), { overwrite: true });
+		this.copyFile(from, path.join(this.options.to, this.sysdir(), 'Assets', 'Resources', 'Blobs', to + '.bytes'));
 		return [to];
 	}
 
 	async copyVideo(platform: string, from: string, to: string) {
 		return [to];
 	}
+
+	assetFiles(kind: string, files: string[]): string[] {
+		let resources = path.join(this.options.to, this.sysdir(), 'Assets', 'Resources');
+		switch (kind) {
+			case 'image':
+				return files.map((file) => path.join(resources, 'Images', file));
+			case 'sound':
+				return files.map((file) => path.join(resources, 'Sounds', file));
+			default:
+				return files.map((file) => path.join(resources, 'Blobs', file + '.bytes'));
+		}
+	}
 }
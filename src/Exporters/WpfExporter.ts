@@ -17,7 +17,7 @@ export class WpfExporter extends CSharpExporter {
 	}
 
 	exportResources() {
-		fs.ensureDirSync(path.join(this.options.to, this.sysdir() + '-build', 'Properties'));
+		this.createDirectory(path.join(this.options.to, this.sysdir() + '-build', 'Properties'));
 		this.writeFile(path.join(this.options.to, this.sysdir() + '-build', 'Properties', 'AssemblyInfo.cs'));
 		this.p('using System.Reflection;');
 		this.p('using System.Resources;');
@@ -275,12 +275,12 @@ export class WpfExporter extends CSharpExporter {
 	}*/
 
 	async copySound(platform: string, from: string, to: string) {
-		fs.copySync(from.toString(), path.join(this.options.to, this.sysdir(), to + '.wav'), { overwrite: true });
+		this.copyFile(from, path.join(this.options.to, this.sysdir(), to + '.wav'));
 		return [to + '.wav'];
 	}
 
 	async copyVideo(platform: string, from: string, to: string) {
-		fs.ensureDirSync(path.join(this.options.to, this.sysdir(), path.dirname(to)));
+		this.createDirectory(path.join(this.options.to, this.sysdir(), path.dirname(to)));
 		await convert(from, path.join(this.options.to, this.sysdir(), to + '.wmv'), this.options.wmv);
 		return [to + '.wmv'];
 	}
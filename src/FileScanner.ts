@@ -0,0 +1,30 @@
+import * as chokidar from 'chokidar';
+import {ignoredFiles} from './Exclude';
+
+// Lists the files matching a glob once and hands the same list
+// to every target that is built in the same khamake run.
+export class FileScanner {
+	scans: Map<string, Promise<string[]>>;
+
+	constructor() {
+		this.scans = new Map();
+	}
+
+	scan(match: string, options: any = {}): Promise<string[]> {
+		let key = match + (options.exclude ? '\n' + options.exclude.join('\n') : '');
+		if (!this.scans.has(key)) {
+			this.scans.set(key, new Promise<string[]>((resolve, reject) => {
+				let files: string[] = [];
+				let watcher = chokidar.watch(match, { ignored: ignoredFiles(options), persistent: false });
+				watcher.on('add', (file: string) => {
+					files.push(file);
+				});
+				watcher.on('ready', () => {
+					watcher.close();
+					resolve(files);
+				});
+			}));
+		}
+		return this.scans.get(key);
+	}
+}
@@ -1,6 +1,7 @@
 import * as child_process from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
+import {HaxeCompileError, ToolNotFoundError} from './KhamakeError';
 import * as log from './log';
 import {sys} from './exec';
 
@@ -18,18 +19,26 @@ export function executeHaxe(from: string, haxeDirectory: string, options: string
 			}
 		}
 		let haxe = child_process.spawn(exe, options, {env: env, cwd: path.normalize(from)});
+		let output = '';
+		let spawnError: Error = null;
 		
 		haxe.stdout.on('data', (data: any) => {
 			log.info(data.toString());
 		});
 
 		haxe.stderr.on('data', (data: any) => {
+			output += data.toString();
 			log.error(data.toString());
 		});
+
+		haxe.on('error', (error: Error) => {
+			spawnError = error;
+		});
 		
 		haxe.on('close', (code: number) => {
 			if (code === 0) resolve();
-			else reject('Haxe compiler error.');
+			else if (spawnError) reject(new ToolNotFoundError('Could not start ' + exe + ': ' + spawnError.message, { cause: spawnError }));
+			else reject(new HaxeCompileError('Haxe compiler error.', { output: output }));
 		});
 	});
 }
@@ -2,6 +2,8 @@ import * as child_process from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as chokidar from 'chokidar';
+import * as dryrun from './DryRun';
+import {HaxeCompileError, KhamakeError, ToolNotFoundError} from './KhamakeError';
 import * as log from './log';
 import {sys} from './exec';
 
@@ -19,6 +21,10 @@ export class HaxeCompiler {
 	resourceDir: string;
 	compilationServer: child_process.ChildProcess;
 	sysdir: string;
+	onRebuild: () => void = null;
+	output: string = '';
+	spawnError: Error = null;
+	exe: string = 'haxe';
 
 	constructor(from: string, temp: string, to: string, resourceDir: string, haxeDirectory: string, hxml: string, sourceDirectories: Array<string>, sysdir: string) {
 		this.from = from;
@@ -42,7 +48,9 @@ export class HaxeCompiler {
 
 	async run(watch: boolean) {
 		if (watch) {
-			this.watcher = chokidar.watch(this.sourceMatchers, { ignored: /[\/\\]\.git/, persistent: true, ignoreInitial: true });
+			// Kha's Assets class is generated from files.json, it changes when assets are added or removed while watching
+			let resources = path.join(this.resourceDir, 'files.json').replace(/\\/g, '/');
+			this.watcher = chokidar.watch(this.sourceMatchers.concat([resources]), { ignored: /[\/\\]\.git/, persistent: true, ignoreInitial: true });
 			this.watcher.on('add', (file: string) => {
 				this.scheduleCompile();
 			});
@@ -88,6 +96,15 @@ export class HaxeCompiler {
 			}
 		}
 
+		if (dryrun.get()) {
+			dryrun.command(exe, parameters, path.normalize(this.from));
+			onClose(0, null);
+			return null;
+		}
+
+		this.exe = exe;
+		this.output = '';
+		this.spawnError = null;
 		let haxe = child_process.spawn(exe, parameters, {env: env, cwd: path.normalize(this.from)});
 
 		haxe.stdout.on('data', (data: any) => {
@@ -95,9 +112,14 @@ export class HaxeCompiler {
 		});
 
 		haxe.stderr.on('data', (data: any) => {
+			this.output += data.toString();
 			log.error(data.toString());
 		});
 
+		haxe.on('error', (error: Error) => {
+			this.spawnError = error;
+		});
+
 		haxe.on('close', onClose);
 
 		return haxe;
@@ -110,7 +132,7 @@ export class HaxeCompiler {
 					resolve();
 				}
 				else {
-					reject();
+					reject(this.compileError(parameters[0]));
 				}
 			});
 		});
@@ -129,6 +151,9 @@ export class HaxeCompiler {
 	}
 
 	runHaxe(parameters: string[], onClose: (code: number, signal: string) => void): child_process.ChildProcess {
+		if (dryrun.get()) {
+			return this.runHaxeAgain(parameters, onClose);
+		}
 		if (fs.existsSync(path.join(this.resourceDir, 'workers.txt'))) {
 			fs.unlinkSync(path.join(this.resourceDir, 'workers.txt'));
 		}
@@ -177,6 +202,7 @@ export class HaxeCompiler {
 				if (code === 0) {
 					process.stdout.write('\x1Bc');
 					log.info('Haxe compile end.');
+					if (this.onRebuild) this.onRebuild();
 				} else {
 					log.info('Haxe compile error.');
 				}
@@ -203,14 +229,20 @@ export class HaxeCompiler {
 					resolve();
 				}
 				else {
-					process.exitCode = 1;
 					log.error('Haxe compiler error.');
-					reject();
+					reject(this.compileError(this.hxml));
 				}
 			});
 		});
 	}
 
+	private compileError(hxml: string): KhamakeError {
+		if (this.spawnError) {
+			return new ToolNotFoundError('Could not start ' + this.exe + ': ' + this.spawnError.message, { cause: this.spawnError });
+		}
+		return new HaxeCompileError('Haxe compiler error.', { file: path.join(this.from, hxml), output: this.output });
+	}
+
 	private static spinRename(from: string, to: string): void {
 		for (; ; ) {
 			if (fs.existsSync(from)) {
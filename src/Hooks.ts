@@ -0,0 +1,103 @@
+import {Asset} from './AssetConverter';
+import {BuildResult} from './BuildResult';
+import {KhaExporter} from './Exporters/KhaExporter';
+import {BuildError, KhamakeError} from './KhamakeError';
+import * as log from './log';
+import {Options} from './Options';
+import {Project} from './Project';
+import {CompiledShader} from './ShaderCompiler';
+
+/**
+ * What every hook gets passed, the fields are filled in as the build progresses.
+ */
+export interface HookContext {
+	/** Name of the hook which is called */
+	hook: string;
+	project: Project;
+	exporter: KhaExporter;
+	options: Options;
+	/** Everything built so far including the durations of the finished phases */
+	result: BuildResult;
+	/** The converted assets, set from postAssetConversion on */
+	assets: Asset[];
+	/** The compiled shaders, set from postShaderCompilation on */
+	shaders: CompiledShader[];
+	/** The options Haxe is run with, set from postHaxeCompilation on */
+	haxeOptions: any;
+	/** What was rebuilt for onWatchRebuild: 'assets', 'shaders' or 'haxe' */
+	phase: string;
+	/** Why the build failed for onError */
+	error: KhamakeError;
+}
+
+export type Hook = (context: HookContext) => void | Promise<void>;
+
+export const hookNames = [
+	'preAssetConversion',
+	'postAssetConversion',
+	'preShaderCompilation',
+	'postShaderCompilation',
+	'preHaxeCompilation',
+	'postHaxeCompilation',
+	'preExport',
+	'postExport',
+	'postCppCompilation',
+	'onWatchRebuild',
+	'onError'
+];
+
+/**
+ * The callbacks object of a khafile, one function per hook.
+ */
+export type KhafileCallbacks = {[hook: string]: Hook};
+
+export function createCallbacks(): KhafileCallbacks {
+	let callbacks: KhafileCallbacks = {};
+	for (let name of hookNames) {
+		callbacks[name] = () => {};
+	}
+	return callbacks;
+}
+
+export function createHookContext(project: Project, exporter: KhaExporter, options: Options, result: BuildResult): HookContext {
+	return {
+		hook: null,
+		project: project,
+		exporter: exporter,
+		options: options,
+		result: result,
+		assets: null,
+		shaders: null,
+		haxeOptions: null,
+		phase: null,
+		error: null
+	};
+}
+
+/**
+ * Calls the hook of the project and of the projects it added one after another, waiting for each of them.
+ * Callbacks are looked up now so khafiles can still replace them after calling resolve.
+ */
+export async function runHook(name: string, context: HookContext): Promise<void> {
+	context.hook = name;
+	for (let callbacks of context.project.callbacks) {
+		let hook = callbacks[name];
+		if (typeof hook !== 'function') continue;
+		try {
+			await hook(context);
+		}
+		catch (error) {
+			if (error instanceof KhamakeError) throw error;
+			throw new BuildError('The ' + name + ' callback failed: ' + (error && error.message ? error.message : error), error);
+		}
+	}
+}
+
+/**
+ * For hooks which can not fail the build, like onError and onWatchRebuild.
+ */
+export function runHookSafely(name: string, context: HookContext): Promise<void> {
+	return runHook(name, context).catch((error) => {
+		log.error(error.message);
+	});
+}
@@ -2,6 +2,9 @@ import * as child_process from 'child_process';
 import * as fs from 'fs-extra';
 import * as os from 'os';
 import * as path from 'path';
+import {cacheFor} from './BuildCache';
+import * as dryrun from './DryRun';
+import {AssetConversionError, ToolNotFoundError} from './KhamakeError';
 import * as log from './log';
 import {sys} from './exec';
 
@@ -13,9 +16,15 @@ function getWidthAndHeight(kha: string, from: string, to: string, options: any,
 		if (options.scale !== undefined && options.scale !== 1) {
 			params.push('scale=' + options.scale);	
 		}
+		if (dryrun.get()) {
+			dryrun.command(path.join(kha, 'Kore', 'Tools', 'kraffiti', exe), params);
+			resolve({w: 0, h: 0});
+			return;
+		}
 		let process = child_process.spawn(path.join(kha, 'Kore', 'Tools', 'kraffiti', exe), params);
 		
 		let output = '';
+		let spawnError: Error = null;
 		process.stdout.on('data', (data: any) => {
 			output += data.toString();
 		});
@@ -24,7 +33,15 @@ function getWidthAndHeight(kha: string, from: string, to: string, options: any,
 			
 		});
 
+		process.on('error', (error: Error) => {
+			spawnError = error;
+		});
+
 		process.on('close', (code: number) => {
+			if (spawnError) {
+				reject(new ToolNotFoundError('Could not start kraffiti: ' + spawnError.message, { file: from, cause: spawnError }));
+				return;
+			}
 			if (code !== 0) {
 				log.error('kraffiti process exited with code ' + code + ' when trying to get size of ' + path.parse(from).name);
 				resolve({w: 0, h: 0});
@@ -43,23 +60,40 @@ function getWidthAndHeight(kha: string, from: string, to: string, options: any,
 	});
 }
 
-function convertImage(from: string, temp: string, to: string, kha: string, exe: string, params: string[], options: any, cache: any): Promise<void> {
+function convertImage(from: string, temp: string, to: string, kha: string, exe: string, params: string[], options: any): Promise<void> {
 	return new Promise<void>((resolve, reject) => {
+		if (dryrun.get()) {
+			dryrun.command(path.join(kha, 'Kore', 'Tools', 'kraffiti', exe), params);
+			dryrun.write(to);
+			resolve();
+			return;
+		}
+
 		let process = child_process.spawn(path.join(kha, 'Kore', 'Tools', 'kraffiti', exe), params);
 		
 		let output = '';
+		let errorOutput = '';
+		let spawnError: Error = null;
 		process.stdout.on('data', (data: any) => {
 			output += data.toString();
 		});
 
 		process.stderr.on('data', (data: any) => {
-			
+			errorOutput += data.toString();
+		});
+
+		process.on('error', (error: Error) => {
+			spawnError = error;
 		});
 
 		process.on('close', (code: number) => {
+			if (spawnError) {
+				reject(new ToolNotFoundError('Could not start kraffiti: ' + spawnError.message, { file: from, cause: spawnError }));
+				return;
+			}
 			if (code !== 0) {
 				log.error('kraffiti process exited with code ' + code + ' when trying to convert ' + path.parse(from).name);
-				resolve();
+				reject(new AssetConversionError('Converting ' + from + ' failed.', { file: from, output: errorOutput + output }));
 				return;
 			}
 
@@ -69,9 +103,8 @@ function convertImage(from: string, temp: string, to: string, kha: string, exe:
 			for (let line of lines) {
 				if (line.startsWith('#')) {
 					let numbers = line.substring(1).split('x');
-					cache[to] = {};
-					cache[to].original_width = options.original_width = parseInt(numbers[0]);
-					cache[to].original_height = options.original_height = parseInt(numbers[1]);
+					options.original_width = parseInt(numbers[0]);
+					options.original_height = parseInt(numbers[1]);
 					resolve();
 					return;
 				}
@@ -81,7 +114,7 @@ function convertImage(from: string, temp: string, to: string, kha: string, exe:
 	});
 }
 
-export async function exportImage(kha: string, from: string, to: string, options: any, format: string, prealpha: boolean, poweroftwo: boolean, cache: any): Promise<string> {
+export async function exportImage(kha: string, from: string, to: string, options: any, format: string, prealpha: boolean, poweroftwo: boolean): Promise<string> {
 	if (format === undefined) {
 		if (from.toString().endsWith('.png')) format = 'png';
 		else if (from.toString().endsWith('.hdr')) format = 'hdr'; 
@@ -128,33 +161,8 @@ export async function exportImage(kha: string, from: string, to: string, options
 		outputformat = 'dxt5.k';
 	}
 
-	if (fs.existsSync(to) && fs.statSync(to).mtime.getTime() > fs.statSync(from.toString()).mtime.getTime()) {
-		if (cache[to] !== undefined) {
-			const cachedOptions = cache[to];
-			options.original_width = cachedOptions.original_width;
-			options.original_height = cachedOptions.original_height;
-			return outputformat;
-		}
-		let wh = await getWidthAndHeight(kha, from, to, options, format, prealpha);
-		cache[to] = {};
-		cache[to].original_width = options.original_width = wh.w;
-		cache[to].original_height = options.original_height = wh.h;
-		return outputformat;
-	}
-
-	fs.ensureDirSync(path.dirname(to));
-
-	if (format === 'jpg' || format === 'hdr') {
-		fs.copySync(from, temp, { overwrite: true });
-		fs.renameSync(temp, to);
-		let wh = await getWidthAndHeight(kha, from, to, options, format, prealpha);
-		options.original_width = wh.w;
-		options.original_height = wh.h;
-		return outputformat;
-	}
-
 	const exe = 'kraffiti' + sys();
-	
+
 	let params = ['from=' + from, 'to=' + temp, 'format=' + format];
 	if (!poweroftwo) {
 		params.push('filter=nearest');
@@ -169,7 +177,33 @@ export async function exportImage(kha: string, from: string, to: string, options
 	if (poweroftwo) {
 		params.push('poweroftwo');
 	}
-	
-	await convertImage(from, temp, to, kha, exe, params, options, cache);
+
+	let cache = cacheFor(to);
+	let key = cache !== null ? cache.key(from, path.join(kha, 'Kore', 'Tools', 'kraffiti', exe), params) : null;
+	if (cache !== null && cache.isFresh(to, key) && cache.data(to) !== null) {
+		options.original_width = cache.data(to).original_width;
+		options.original_height = cache.data(to).original_height;
+		return outputformat;
+	}
+
+	if (!dryrun.get()) fs.ensureDirSync(path.dirname(to));
+
+	if (format === 'jpg' || format === 'hdr') {
+		if (dryrun.get()) {
+			dryrun.copy(from, to);
+		}
+		else {
+			fs.copySync(from, temp, { overwrite: true });
+			fs.renameSync(temp, to);
+		}
+		let wh = await getWidthAndHeight(kha, from, to, options, format, prealpha);
+		options.original_width = wh.w;
+		options.original_height = wh.h;
+		if (cache !== null) cache.store(to, key, { original_width: wh.w, original_height: wh.h });
+		return outputformat;
+	}
+
+	await convertImage(from, temp, to, kha, exe, params, options);
+	if (cache !== null) cache.store(to, key, { original_width: options.original_width, original_height: options.original_height });
 	return outputformat;
 }
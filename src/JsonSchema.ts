@@ -0,0 +1,98 @@
+import {suggest} from './suggest';
+
+// Just the parts of JSON Schema khamake's own schemas use: type, enum, properties,
+// required, additionalProperties, items, oneOf and local $refs.
+
+function typeOf(value: any): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+	return typeof value;
+}
+
+function hasType(value: any, type: string): boolean {
+	let actual = typeOf(value);
+	return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function describe(schema: any): string {
+	if (schema.type === 'object' && schema.required) return 'an object with ' + schema.required.join(', ');
+	if (schema.type === 'array' || schema.type === 'object' || schema.type === 'integer') return 'an ' + schema.type;
+	return 'a ' + schema.type;
+}
+
+function resolveRef(root: any, schema: any): any {
+	if (schema.$ref === undefined) return schema;
+	let resolved = root;
+	for (let part of schema.$ref.replace(/^#\//, '').split('/')) {
+		resolved = resolved[part];
+	}
+	return resolved;
+}
+
+function childPath(path: string, key: string | number): string {
+	if (typeof key === 'number') return path + '[' + key + ']';
+	if (/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key)) return path === '' ? key : path + '.' + key;
+	return path + '[' + JSON.stringify(key) + ']';
+}
+
+function check(root: any, schema: any, value: any, path: string, errors: string[]): void {
+	schema = resolveRef(root, schema);
+	let where = path === '' ? 'The root' : path;
+
+	if (schema.oneOf) {
+		let branches = schema.oneOf.map((branch: any) => resolveRef(root, branch));
+		let typed = branches.filter((branch: any) => branch.type === undefined || hasType(value, branch.type));
+		if (typed.length === 0) {
+			errors.push(where + ' has to be ' + branches.map(describe).join(' or ') + '.');
+			return;
+		}
+		// Report the problems of the branch with the right type instead of a vague mismatch
+		check(root, typed[0], value, path, errors);
+		return;
+	}
+
+	if (schema.type !== undefined && !hasType(value, schema.type)) {
+		errors.push(where + ' has to be ' + describe(schema) + '.');
+		return;
+	}
+
+	if (schema.enum && schema.enum.indexOf(value) < 0) {
+		let suggestion = typeof value === 'string' ? suggest(value, schema.enum) : null;
+		errors.push(where + ' has to be one of ' + schema.enum.join(', ') + '.' + (suggestion ? ' Did you mean "' + suggestion + '"?' : ''));
+	}
+
+	if (typeOf(value) === 'array' && schema.items) {
+		for (let i = 0; i < value.length; ++i) {
+			check(root, schema.items, value[i], childPath(path, i), errors);
+		}
+	}
+
+	if (typeOf(value) === 'object') {
+		let properties = schema.properties || {};
+		for (let name of schema.required || []) {
+			if (value[name] === undefined) errors.push(where + ' is missing "' + name + '".');
+		}
+		for (let key of Object.keys(value)) {
+			if (properties.hasOwnProperty(key)) {
+				check(root, properties[key], value[key], childPath(path, key), errors);
+			}
+			else if (schema.additionalProperties === false) {
+				let suggestion = suggest(key, Object.keys(properties));
+				errors.push(childPath(path, key) + ' is not allowed.' + (suggestion ? ' Did you mean "' + suggestion + '"?' : ''));
+			}
+			else if (typeof schema.additionalProperties === 'object') {
+				check(root, schema.additionalProperties, value[key], childPath(path, key), errors);
+			}
+		}
+	}
+}
+
+/**
+ * Checks value against schema and returns one message per problem, each starting with the path of the offending value.
+ */
+export function validate(schema: any, value: any): string[] {
+	let errors: string[] = [];
+	check(schema, schema, value, '', errors);
+	return errors;
+}
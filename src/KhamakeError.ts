@@ -0,0 +1,127 @@
+export const ErrorCode = {
+	BuildFailed: 'BUILD_FAILED',
+	InvalidOption: 'INVALID_OPTION',
+	ProjectLoadFailed: 'PROJECT_LOAD_FAILED',
+	LibraryNotFound: 'LIBRARY_NOT_FOUND',
+	ToolNotFound: 'TOOL_NOT_FOUND',
+	AssetConversionFailed: 'ASSET_CONVERSION_FAILED',
+	ShaderCompileFailed: 'SHADER_COMPILE_FAILED',
+	HaxeCompileFailed: 'HAXE_COMPILE_FAILED',
+	NativeBuildFailed: 'NATIVE_BUILD_FAILED',
+	LockfileMismatch: 'LOCKFILE_MISMATCH'
+};
+
+// Process exit codes, these must never change so scripts can rely on them
+const exitCodes: {[code: string]: number} = {
+	BUILD_FAILED: 1,
+	INVALID_OPTION: 2,
+	PROJECT_LOAD_FAILED: 3,
+	LIBRARY_NOT_FOUND: 4,
+	TOOL_NOT_FOUND: 5,
+	ASSET_CONVERSION_FAILED: 6,
+	SHADER_COMPILE_FAILED: 7,
+	HAXE_COMPILE_FAILED: 8,
+	NATIVE_BUILD_FAILED: 9,
+	LOCKFILE_MISMATCH: 10
+};
+
+export function exitCodeOf(code: string): number {
+	return exitCodes[code] !== undefined ? exitCodes[code] : 1;
+}
+
+export interface ErrorDetails {
+	file?: string;
+	output?: string;
+	cause?: any;
+}
+
+/**
+ * Base of all errors khamake reports, code and exitCode identify the kind of failure.
+ */
+export class KhamakeError extends Error {
+	code: string;
+	exitCode: number;
+	file: string;
+	output: string;
+	cause: any;
+
+	constructor(code: string, message: string, details: ErrorDetails = {}) {
+		super(message);
+		this.name = 'KhamakeError';
+		this.code = code;
+		this.exitCode = exitCodeOf(code);
+		this.file = details.file !== undefined ? details.file : null;
+		this.output = details.output !== undefined ? details.output : null;
+		this.cause = details.cause !== undefined ? details.cause : null;
+	}
+}
+
+export class BuildError extends KhamakeError {
+	constructor(message: string, cause: any = null, code: string = ErrorCode.BuildFailed, details: ErrorDetails = {}) {
+		super(code, message, Object.assign({ cause: cause }, details));
+		this.name = 'BuildError';
+	}
+}
+
+export class InvalidOptionError extends BuildError {
+	constructor(message: string, details: ErrorDetails = {}) {
+		super(message, null, ErrorCode.InvalidOption, details);
+		this.name = 'InvalidOptionError';
+	}
+}
+
+export class ProjectLoadError extends BuildError {
+	constructor(message: string, details: ErrorDetails = {}) {
+		super(message, null, ErrorCode.ProjectLoadFailed, details);
+		this.name = 'ProjectLoadError';
+	}
+}
+
+export class LibraryNotFoundError extends BuildError {
+	constructor(message: string, details: ErrorDetails = {}) {
+		super(message, null, ErrorCode.LibraryNotFound, details);
+		this.name = 'LibraryNotFoundError';
+	}
+}
+
+export class ToolNotFoundError extends BuildError {
+	constructor(message: string, details: ErrorDetails = {}) {
+		super(message, null, ErrorCode.ToolNotFound, details);
+		this.name = 'ToolNotFoundError';
+	}
+}
+
+export class AssetConversionError extends BuildError {
+	constructor(message: string, details: ErrorDetails = {}) {
+		super(message, null, ErrorCode.AssetConversionFailed, details);
+		this.name = 'AssetConversionError';
+	}
+}
+
+export class ShaderCompileError extends BuildError {
+	constructor(message: string, details: ErrorDetails = {}) {
+		super(message, null, ErrorCode.ShaderCompileFailed, details);
+		this.name = 'ShaderCompileError';
+	}
+}
+
+export class HaxeCompileError extends BuildError {
+	constructor(message: string, details: ErrorDetails = {}) {
+		super(message, null, ErrorCode.HaxeCompileFailed, details);
+		this.name = 'HaxeCompileError';
+	}
+}
+
+export class NativeBuildError extends BuildError {
+	constructor(message: string, details: ErrorDetails = {}) {
+		super(message, null, ErrorCode.NativeBuildFailed, details);
+		this.name = 'NativeBuildError';
+	}
+}
+
+export class LockfileError extends BuildError {
+	constructor(message: string, details: ErrorDetails = {}) {
+		super(message, null, ErrorCode.LockfileMismatch, details);
+		this.name = 'LockfileError';
+	}
+}
@@ -0,0 +1,173 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as dryrun from './DryRun';
+import {LockfileError} from './KhamakeError';
+import * as log from './log';
+import {Options} from './Options';
+import {Project, ResolvedLibrary} from './Project';
+
+export const lockfileName = 'khafile.lock';
+
+interface LockedLibrary {
+	version: string;
+	source: string;
+	/** Relative to the haxelib repository for haxelib libraries, e.g. 'hxcpp/3,2,193', haxelib paths differ from machine to machine */
+	path: string;
+	requested: string;
+	dependencyOf: string;
+	/** The targets which use the library */
+	targets: string[];
+}
+
+interface Lock {
+	lockfileVersion: number;
+	libraries: {[name: string]: LockedLibrary};
+}
+
+const lockfileVersion = 3;
+
+/**
+ * A target built by the current invocation and the project its khafile evaluated to.
+ */
+export interface TargetProject {
+	target: string;
+	project: Project;
+}
+
+// Libraries inside the project are recorded relative to it and haxelib versions
+// relative to the haxelib repository so the lock can be committed
+function lockedPath(from: string, library: ResolvedLibrary): string {
+	let absolute = path.resolve(library.path.trim());
+	if (library.source === 'haxelib') {
+		return path.basename(path.dirname(absolute)) + '/' + path.basename(absolute);
+	}
+	let relative = path.relative(path.resolve(from), absolute);
+	if (!relative.startsWith('..') && !path.isAbsolute(relative)) return relative.replace(/\\/g, '/');
+	return absolute.replace(/\\/g, '/');
+}
+
+function sortLibraries(libraries: {[name: string]: LockedLibrary}): {[name: string]: LockedLibrary} {
+	let sorted: {[name: string]: LockedLibrary} = {};
+	for (let name of Object.keys(libraries).sort()) {
+		libraries[name].targets.sort();
+		sorted[name] = libraries[name];
+	}
+	return sorted;
+}
+
+function createLock(targets: TargetProject[], from: string): Lock {
+	let libraries: {[name: string]: LockedLibrary} = {};
+	for (let target of targets) {
+		for (let library of target.project.resolvedLibraries) {
+			let locked = libraries[library.name];
+			if (locked === undefined) {
+				libraries[library.name] = {
+					version: library.version,
+					source: library.source,
+					path: lockedPath(from, library),
+					requested: library.requested,
+					dependencyOf: library.dependencyOf,
+					targets: [target.target]
+				};
+			}
+			else if (locked.targets.indexOf(target.target) < 0) {
+				locked.targets.push(target.target);
+			}
+		}
+	}
+	return { lockfileVersion: lockfileVersion, libraries: sortLibraries(libraries) };
+}
+
+function readLock(file: string): Lock {
+	if (!fs.existsSync(file)) return null;
+	try {
+		return JSON.parse(fs.readFileSync(file, 'utf8'));
+	}
+	catch (error) {
+		throw new LockfileError('Could not parse ' + file + ': ' + error.message, { file: file, cause: error });
+	}
+}
+
+// Only the targets which are built are compared, the lock can contain libraries of other targets
+function differences(locked: Lock, current: Lock, targets: string[]): string[] {
+	let problems: string[] = [];
+	let lockedLibraries = locked.libraries || {};
+	for (let name in current.libraries) {
+		let library = current.libraries[name];
+		let lockedLibrary = lockedLibraries[name];
+		let missing = lockedLibrary === undefined ? library.targets : library.targets.filter((target) => lockedLibrary.targets.indexOf(target) < 0);
+		if (missing.length > 0) {
+			problems.push(name + ' is not in ' + lockfileName + ' for ' + missing.join(', '));
+		}
+		else if (library.version !== lockedLibrary.version) {
+			problems.push(name + ' resolves to version ' + library.version + ' but ' + lockfileName + ' has ' + lockedLibrary.version);
+		}
+		else if (library.source !== lockedLibrary.source) {
+			problems.push(name + ' comes from ' + library.source + ' but ' + lockfileName + ' has ' + lockedLibrary.source);
+		}
+		else if (library.path !== lockedLibrary.path) {
+			problems.push(name + ' resolves to ' + library.path + ' but ' + lockfileName + ' has ' + lockedLibrary.path);
+		}
+	}
+	for (let name in lockedLibraries) {
+		let library = current.libraries[name];
+		let unused = lockedLibraries[name].targets.filter((target) => targets.indexOf(target) >= 0 && (library === undefined || library.targets.indexOf(target) < 0));
+		if (unused.length > 0) {
+			problems.push(name + ' is in ' + lockfileName + ' for ' + unused.join(', ') + ' but not used anymore');
+		}
+	}
+	return problems;
+}
+
+// Keeps what the lock records for targets which were not built this time
+function mergeLocks(existing: Lock, current: Lock, targets: string[]): Lock {
+	let libraries: {[name: string]: LockedLibrary} = {};
+	if (existing !== null) {
+		for (let name in existing.libraries) {
+			let others = existing.libraries[name].targets.filter((target) => targets.indexOf(target) < 0);
+			if (others.length > 0) libraries[name] = Object.assign({}, existing.libraries[name], { targets: others });
+		}
+	}
+	for (let name in current.libraries) {
+		let others = libraries[name] !== undefined ? libraries[name].targets : [];
+		libraries[name] = Object.assign({}, current.libraries[name], { targets: current.libraries[name].targets.concat(others) });
+	}
+	return { lockfileVersion: lockfileVersion, libraries: sortLibraries(libraries) };
+}
+
+/**
+ * Records the libraries the projects of the built targets resolved in khafile.lock or,
+ * using --frozen-lockfile, fails when they differ from it.
+ */
+export function updateLockfile(options: Options, targetProjects: TargetProject[]): void {
+	let file = path.join(options.from, lockfileName);
+	let targets = targetProjects.map((targetProject) => targetProject.target);
+	let lock = createLock(targetProjects, options.from);
+	let existing = readLock(file);
+	let empty = Object.keys(lock.libraries).length === 0;
+
+	if (options['frozen-lockfile']) {
+		if (existing === null) {
+			if (empty) return;
+			throw new LockfileError(lockfileName + ' is missing but --frozen-lockfile was given.', { file: file });
+		}
+		if (existing.lockfileVersion !== lockfileVersion) {
+			throw new LockfileError(lockfileName + ' was written by an older khamake, build once without --frozen-lockfile to update it.', { file: file });
+		}
+		let problems = differences(existing, lock, targets);
+		if (problems.length > 0) {
+			for (let problem of problems) log.error(problem + '.');
+			throw new LockfileError('The libraries do not match ' + lockfileName + '.', { file: file, output: problems.join('\n') });
+		}
+		return;
+	}
+
+	if (existing !== null && existing.lockfileVersion !== lockfileVersion) existing = null;
+	let merged = mergeLocks(existing, lock, targets);
+	if (existing === null && Object.keys(merged.libraries).length === 0) return;
+	let contents = JSON.stringify(merged, null, '\t') + '\n';
+	if (fs.existsSync(file) && fs.readFileSync(file, 'utf8') === contents) return;
+	log.info('Writing ' + lockfileName + '.');
+	if (dryrun.get()) dryrun.write(file);
+	else fs.writeFileSync(file, contents, 'utf8');
+}
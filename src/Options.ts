@@ -1,45 +1,198 @@
+import * as os from 'os';
+import {AudioApi} from './AudioApi';
+import {GraphicsApi} from './GraphicsApi';
+import {InvalidOptionError} from './KhamakeError';
+import {Platform} from './Platform';
+import {RayTraceApi} from './RayTraceApi';
+import {VisualStudioVersion} from './VisualStudioVersion';
+import {VrApi} from './VrApi';
+import {suggest} from './suggest';
+
+export interface OptionDefinition {
+	kind: 'string' | 'number' | 'flag' | 'list';
+	description: string;
+	short?: string;
+	default?: any;
+	values?: string[];
+	hidden?: boolean;
+}
+
+interface StringOption extends OptionDefinition {
+	kind: 'string';
+}
+
+interface NumberOption extends OptionDefinition {
+	kind: 'number';
+}
+
+interface FlagOption extends OptionDefinition {
+	kind: 'flag';
+}
+
+interface ListOption extends OptionDefinition {
+	kind: 'list';
+}
+
+interface OptionExtras {
+	short?: string;
+	values?: string[];
+	hidden?: boolean;
+}
+
+function stringOption(description: string, defaultValue: string, extras: OptionExtras = {}): StringOption {
+	return { kind: 'string', description: description, default: defaultValue, short: extras.short, values: extras.values, hidden: extras.hidden };
+}
+
+function numberOption(description: string, defaultValue: number, extras: OptionExtras = {}): NumberOption {
+	return { kind: 'number', description: description, default: defaultValue, short: extras.short, hidden: extras.hidden };
+}
+
+function flagOption(description: string, extras: OptionExtras = {}): FlagOption {
+	return { kind: 'flag', description: description, default: false, short: extras.short, hidden: extras.hidden };
+}
+
+// Can be given several times, strings from config files and the environment are split at commas
+function listOption(description: string, extras: OptionExtras = {}): ListOption {
+	return { kind: 'list', description: description, default: [], short: extras.short, hidden: extras.hidden };
+}
+
+function valuesOf(api: any): string[] {
+	return Object.keys(api).map((key) => api[key]);
+}
+
+let defaultTarget: string;
+if (os.platform() === 'linux') {
+	defaultTarget = Platform.Linux;
+}
+else if (os.platform() === 'win32') {
+	defaultTarget = Platform.Windows;
+}
+else {
+	defaultTarget = Platform.OSX;
+}
+
+// Everything khamake can be configured with on the command line, in khamake.json or in KHAMAKE_* variables.
+// The Options type and the --help output are derived from this.
+export const optionSchema = {
+	from: stringOption('Location of your project', '.'),
+	to: stringOption('Build location', 'build'),
+	projectfile: stringOption('Name of your project file, defaults to "khafile.js"', 'khafile.js'),
+	target: stringOption('Target platform, several targets can be separated by commas', defaultTarget, { short: 't' }),
+	vr: stringOption('Target VR device', VrApi.None, { values: valuesOf(VrApi) }),
+	raytrace: stringOption('Target raytracing api', RayTraceApi.None, { values: valuesOf(RayTraceApi) }),
+	main: stringOption('Entrypoint for the haxe code (-main argument), defaults to "Main".', 'Main'),
+	intermediate: stringOption('Intermediate location for object files.', '', { hidden: true }),
+	graphics: stringOption('Graphics api to use.', GraphicsApi.Default, { short: 'g', values: valuesOf(GraphicsApi) }),
+	audio: stringOption('Audio api to use.', AudioApi.Default, { short: 'a', values: valuesOf(AudioApi) }),
+	visualstudio: stringOption('Version of Visual Studio to use. Possible parameters are vs2010, vs2012, vs2013, vs2015 and vs2017.', VisualStudioVersion.VS2017, { short: 'v' }),
+	kha: stringOption('Location of Kha directory', '', { short: 'k' }),
+	haxe: stringOption('Location of Haxe directory', ''),
+	nohaxe: flagOption('Do not compile Haxe sources'),
+	ffmpeg: stringOption('Location of ffmpeg executable', ''),
+	ogg: stringOption('Commandline for running the ogg encoder', ''),
+	mp3: stringOption('Commandline for running the mp3 encoder', ''),
+	aac: stringOption('Commandline for running the ffmpeg executable', ''),
+	krafix: stringOption('Location of krafix shader compiler', ''),
+	krom: stringOption('Location of the Krom executable used by --run', ''),
+	noshaders: flagOption('Do not compile shaders'),
+	noproject: flagOption('Only source files. Don\'t generate project files.'),
+	onlydata: flagOption('Only assets/data. Don\'t generate project files.'),
+	embedflashassets: flagOption('Embed assets in swf for flash target'),
+	compile: flagOption('Compile executable'),
+	run: flagOption('Run what was built - starts Krom, node or the native executable, or serves html5 targets'),
+	init: flagOption('Init a Kha project inside the current directory'),
+	clean: flagOption('Remove all generated files of the target'),
+	'clean-all': flagOption('Remove all generated files of all targets'),
+	name: stringOption('Project name to use when initializing a project', 'Project'),
+	server: flagOption('Run local http server for html5 target'),
+	port: numberOption('Running port for the server', 8080),
+	debug: flagOption('Compile in debug mode for native targets.'),
+	config: stringOption('Build configuration to use, see project.addConfiguration', ''),
+	define: listOption('Haxe define added to the project after the khafile was evaluated, e.g. -D kha_telemetry -D build=42', { short: 'D' }),
+	cdefine: listOption('C define added to the project after the khafile was evaluated, used by native targets'),
+	'frozen-lockfile': flagOption('Fail when the libraries do not resolve to what khafile.lock records instead of updating it'),
+	libs: flagOption('Print the library dependency tree of the project instead of building it'),
+	'print-project': flagOption('Print the resolved project of the target as JSON instead of building it'),
+	'khafile-timeout': numberOption('Seconds to wait for a khafile to call resolve, the projects it adds have their own time. 0 waits forever', 0),
+	'khafile-guard': flagOption('Fail khafiles which use process or require modules missing from --allow-modules. This catches mistakes, it does not make it safe to build untrusted projects'),
+	'allow-modules': stringOption('Comma separated list of the modules khafiles can require with --khafile-guard', 'path,url,util'),
+	silent: flagOption('Silent mode.'),
+	watch: flagOption('Watch files and recompile on change.', { short: 'w' }),
+	glsl2: flagOption('Use experimental SPIRV-Cross glsl mode.'),
+	shaderversion: stringOption('Set target shader version manually.', null),
+	parallelAssetConversion: numberOption('Experimental - Spawn multiple processes during asset and shader conversion. Possible values:\n  0: disabled (default value)\n -1: choose number of processes automatically\n  N: specify number of processes manually', 0),
+	report: stringOption('Write a JSON report about the build to the given file.', ''),
+	'dry-run': flagOption('Print the files that would be written and the commands that would be run without doing anything'),
+	haxe3: flagOption('Use the battle tested Haxe 3 compiler instead of the cutting edge not really released yet Haxe 4 compiler')
+};
+
+type OptionValue<T> = T extends FlagOption ? boolean : T extends NumberOption ? number : T extends ListOption ? string[] : string;
+
+export type OptionValues = {[K in keyof typeof optionSchema]: OptionValue<(typeof optionSchema)[K]>};
+
+export interface Options extends OptionValues { }
+
 export class Options {
-	from: string;
-	to: string;
-	projectfile: string;
-	target: string;
-	vr: string;
-	raytrace: string;
-	main: string;
-	// intermediate: string;
-	graphics: string;
-	audio: string;
-	visualstudio: string;
-	kha: string;
-	haxe: string;
-	nohaxe: boolean;
-	ffmpeg: string;
-	krafix: string;
-	noshaders: boolean;
-
-	parallelAssetConversion: number;
-	noproject: boolean;
-	onlydata: boolean;
-	embedflashassets: boolean;
-	compile: boolean;
-	run: boolean;
-	init: boolean;
-	name: string;
-	server: boolean;
-	port: string;
-	debug: boolean;
-	silent: boolean;
-	watch: boolean;
-	glsl2: boolean;
-	shaderversion: string;
-
-	ogg: string;
-	aac: string;
-	mp3: string;
 	h264: string;
 	webm: string;
 	wmv: string;
 	theora: string;
+}
+
+export function optionNames(): string[] {
+	return Object.keys(optionSchema);
+}
+
+export function findOption(name: string): OptionDefinition {
+	if (!optionSchema.hasOwnProperty(name)) return null;
+	return (optionSchema as any)[name];
+}
+
+export function defaultOptions(): Options {
+	let options: any = new Options();
+	for (let name of optionNames()) {
+		let value = findOption(name).default;
+		options[name] = Array.isArray(value) ? value.slice() : value;
+	}
+	return options;
+}
+
+function parseFlag(value: string): boolean {
+	value = value.trim().toLowerCase();
+	return value !== '' && value !== '0' && value !== 'false' && value !== 'no' && value !== 'off';
+}
 
-	haxe3: boolean;
+// Converts values from the command line, config files or the environment and rejects invalid ones.
+// Strings of config files and the environment are split at commas into lists, every
+// command line argument is one value so -D version=1.0,beta stays a single define.
+export function convertOption(name: string, value: any, splitLists: boolean = true): any {
+	let option = findOption(name);
+	if (option.kind === 'flag') {
+		return typeof value === 'string' ? parseFlag(value) : !!value;
+	}
+	if (option.kind === 'list') {
+		let values = Array.isArray(value) ? value : typeof value === 'string' && splitLists ? value.split(',') : [value];
+		if (values.some((item: any) => item === null || typeof item === 'object')) {
+			throw new InvalidOptionError('Option ' + name + ' expects a list of strings.');
+		}
+		return values.map((item: any) => String(item).trim()).filter((item: string) => item !== '');
+	}
+	if (option.kind === 'number') {
+		let parsed = Number(value);
+		if (value === null || typeof value === 'boolean' || String(value).trim() === '' || isNaN(parsed)) {
+			throw new InvalidOptionError('Option ' + name + ' expects a number but got "' + value + '".');
+		}
+		return parsed;
+	}
+	if (value === null || typeof value === 'object') {
+		throw new InvalidOptionError('Option ' + name + ' expects a string.');
+	}
+	value = String(value);
+	if (option.values && option.values.indexOf(value) < 0) {
+		let suggestion = suggest(value, option.values);
+		throw new InvalidOptionError('Invalid value "' + value + '" for option ' + name + '.'
+			+ (suggestion ? ' Did you mean "' + suggestion + '"?' : '')
+			+ ' Possible values are ' + option.values.join(', ') + '.');
+	}
+	return value;
 }
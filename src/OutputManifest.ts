@@ -0,0 +1,151 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as dryrun from './DryRun';
+import * as log from './log';
+
+export const manifestName = 'outputs.json';
+
+// Output files of every source file, grouped into 'assets' and 'shaders'
+type Outputs = {[group: string]: {[source: string]: string[]}};
+
+/**
+ * Records which files every asset and shader was converted to. It is stored next to files.json
+ * and lets khamake delete outputs whose source was deleted, renamed or is not matched anymore.
+ */
+export class OutputManifest {
+	base: string;
+	file: string;
+	outputs: Outputs;
+	previous: Outputs;
+
+	/**
+	 * Paths are stored relative to base, the build directory.
+	 */
+	constructor(base: string, directory: string) {
+		this.base = path.resolve(base);
+		this.file = path.join(directory, manifestName);
+		this.outputs = {};
+		this.previous = this.read();
+	}
+
+	private read(): Outputs {
+		let outputs: Outputs = {};
+		if (!fs.existsSync(this.file)) return outputs;
+		try {
+			let stored = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+			for (let group in stored) {
+				outputs[group] = {};
+				for (let source in stored[group]) {
+					outputs[group][path.resolve(this.base, source)] = stored[group][source].map((file: string) => path.resolve(this.base, file));
+				}
+			}
+		}
+		catch (error) {
+			log.error('Could not read ' + this.file + ', stale outputs are not removed.');
+		}
+		return outputs;
+	}
+
+	/**
+	 * Adds files source was converted to. A source matched by several matchers collects the outputs of all of them.
+	 */
+	record(group: string, source: string, files: string[]): void {
+		if (!this.outputs[group]) this.outputs[group] = {};
+		source = path.resolve(source);
+		let known = this.outputs[group][source] || [];
+		for (let file of files) {
+			file = path.resolve(file);
+			if (known.indexOf(file) < 0) known.push(file);
+		}
+		this.outputs[group][source] = known;
+	}
+
+	/**
+	 * Takes over the outputs of the previous build for sources whose outputs are unknown this time,
+	 * of all sources of the group when source is left out.
+	 */
+	keep(group: string, source: string = null): void {
+		let previous = this.previous[group] || {};
+		if (source !== null) {
+			source = path.resolve(source);
+			if (previous[source]) this.record(group, source, previous[source]);
+			return;
+		}
+		for (let known in previous) {
+			this.record(group, known, previous[known]);
+		}
+	}
+
+	private produced(): Set<string> {
+		let files = new Set<string>();
+		for (let group in this.outputs) {
+			for (let source in this.outputs[group]) {
+				for (let file of this.outputs[group][source]) files.add(file);
+			}
+		}
+		return files;
+	}
+
+	private remove(files: string[]): void {
+		for (let file of files) {
+			if (!fs.existsSync(file)) continue;
+			if (dryrun.get()) {
+				dryrun.remove(file);
+				continue;
+			}
+			log.info('Removing stale output ' + path.relative(this.base, file));
+			fs.removeSync(file);
+		}
+	}
+
+	/**
+	 * Deletes the files of the previous build which were not produced again and saves the manifest.
+	 */
+	prune(): string[] {
+		let produced = this.produced();
+		let stale: string[] = [];
+		for (let group in this.previous) {
+			for (let source in this.previous[group]) {
+				for (let file of this.previous[group][source]) {
+					if (!produced.has(file) && stale.indexOf(file) < 0) stale.push(file);
+				}
+			}
+		}
+		this.remove(stale);
+		this.save();
+		return stale;
+	}
+
+	/**
+	 * Deletes the outputs of a source which was removed while watching, unless another source produces them too.
+	 */
+	forget(group: string, source: string): string[] {
+		source = path.resolve(source);
+		if (!this.outputs[group] || !this.outputs[group][source]) return [];
+		let files = this.outputs[group][source];
+		delete this.outputs[group][source];
+		let produced = this.produced();
+		let stale = files.filter((file) => !produced.has(file));
+		this.remove(stale);
+		this.save();
+		return stale;
+	}
+
+	save(): void {
+		this.previous = {};
+		let stored: Outputs = {};
+		for (let group in this.outputs) {
+			this.previous[group] = Object.assign({}, this.outputs[group]);
+			stored[group] = {};
+			for (let source of Object.keys(this.outputs[group]).sort()) {
+				stored[group][this.relative(source)] = this.outputs[group][source].map((file) => this.relative(file));
+			}
+		}
+		if (dryrun.get()) return;
+		fs.outputFileSync(this.file, JSON.stringify(stored, null, '\t'), { encoding: 'utf8' });
+	}
+
+	private relative(file: string): string {
+		return path.relative(this.base, file).replace(/\\/g, '/');
+	}
+}
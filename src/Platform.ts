@@ -22,3 +22,8 @@ export const Platform = {
 	Pi: 'pi',
 	tvOS: 'tvos'
 };
+
+// The directory in the build folder a target is exported to, custom targets use their own name as well
+export function targetSysdir(target: string): string {
+	return target.trim().toLowerCase();
+}
@@ -1,21 +1,77 @@
 import * as child_process from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
+import {excludePatterns, readIgnoreFile} from './Exclude';
+import {KhafileCallbacks} from './Hooks';
+import {LibraryNotFoundError} from './KhamakeError';
 import * as log from './log';
-import {loadProject} from './ProjectFile';
+import {findProjectFile, loadProject} from './ProjectFile';
 
 export class Library {
 	libpath: string;
 	libroot: string;
 }
 
+/**
+ * How a library was found, this is what khafile.lock records.
+ */
+export class ResolvedLibrary {
+	name: string;
+	requested: string;
+	version: string;
+	source: string;
+	path: string;
+	dependencyOf: string;
+	dependencies: string[];
+}
+
+/**
+ * A backend of a custom target with the options it overrides.
+ */
+export interface BackendOptions {
+	name: string;
+	/** Deep-merged into project.targetOptions, values set here win */
+	targetOptions?: any;
+	/** Overrides the options of all asset matchers */
+	assetOptions?: any;
+}
+
 export class Target {
 	baseTarget: string;
 	backends: string[];
+	backendOptions: BackendOptions[];
 
-	constructor(baseTarget: string, backends: string[]) {
+	constructor(baseTarget: string, backends: (string | BackendOptions)[]) {
 		this.baseTarget = baseTarget;
-		this.backends = backends;
+		this.backendOptions = backends.map((backend) => typeof backend === 'string' ? { name: backend } : backend);
+		this.backends = this.backendOptions.map((backend) => backend.name);
+	}
+}
+
+export interface ConfigurationOptions {
+	defines?: string[];
+	cdefines?: string[];
+	parameters?: string[];
+	assetOptions?: any;
+	shaderOptions?: any;
+	debug?: boolean;
+}
+
+export class Configuration {
+	defines: string[];
+	cdefines: string[];
+	parameters: string[];
+	assetOptions: any;
+	shaderOptions: any;
+	debug: boolean;
+
+	constructor(options: ConfigurationOptions) {
+		this.defines = options.defines || [];
+		this.cdefines = options.cdefines || [];
+		this.parameters = options.parameters || [];
+		this.assetOptions = options.assetOptions || {};
+		this.shaderOptions = options.shaderOptions || {};
+		this.debug = !!options.debug;
 	}
 }
 
@@ -29,6 +85,36 @@ function contains(main: string, sub: string) {
 	return sub.indexOf(main) === 0 && sub.slice(main.length)[0] === path.sep;
 }
 
+function libraryVersion(dir: string): string {
+	try {
+		let version = JSON.parse(fs.readFileSync(path.join(dir, 'haxelib.json'), 'utf8')).version;
+		return typeof version === 'string' ? version : null;
+	}
+	catch (error) {
+		return null;
+	}
+}
+
+function isPlainObject(value: any): boolean {
+	return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Copies what is missing in target from source, nested objects are merged key by key.
+// Keys are identified by dotted paths like 'targetOptions.html5.canvasId'.
+export function mergeOptions(target: any, source: any, ignored: string[], prefix: string): void {
+	for (let key in source) {
+		let keyPath = prefix + key;
+		if (ignored.indexOf(keyPath) >= 0) continue;
+		if (isPlainObject(source[key])) {
+			if (target[key] === undefined) target[key] = {};
+			if (isPlainObject(target[key])) mergeOptions(target[key], source[key], ignored, keyPath + '.');
+		}
+		else if (target[key] === undefined) {
+			target[key] = Array.isArray(source[key]) ? source[key].slice() : source[key];
+		}
+	}
+}
+
 export class Project {
 	static platform: string;
 	static scriptdir: string;
@@ -39,13 +125,23 @@ export class Project {
 	parameters: string[];
 	scriptdir: string;
 	libraries: Library[];
+	resolvedLibraries: ResolvedLibrary[];
 	localLibraryPath: string;
 	windowOptions: any;
 	targetOptions: any;
 	assetMatchers: { match: string, options: any }[];
 	shaderMatchers: { match: string, options: any }[];
+	/** Absolute globs of the .khaignore file next to the khafile */
+	ignores: string[];
+	/** Absolute globs of Haxe files which are left out of the sources */
+	sourceExcludes: string[];
 	customTargets: Map<string, Target>;
+	configurations: Map<string, Configuration>;
+	/** The callbacks objects of this project's khafile and of the projects it added */
+	callbacks: KhafileCallbacks[];
 	stackSize: number;
+	/** Whether this project's khafile or one of the projects it added mentions platform, only then the project differs between targets */
+	readsPlatform: boolean;
 
 	constructor(name: string) {
 		this.name = name;
@@ -55,11 +151,17 @@ export class Project {
 		this.parameters = [];
 		this.scriptdir = Project.scriptdir;
 		this.libraries = [];
+		this.resolvedLibraries = [];
 		this.localLibraryPath = 'Libraries';
 		this.assetMatchers = [];
 		this.shaderMatchers = [];
 		this.customTargets = new Map();
+		this.callbacks = [];
+		this.configurations = new Map();
 		this.stackSize = 0;
+		this.readsPlatform = false;
+		this.ignores = this.scriptdir ? readIgnoreFile(this.scriptdir) : [];
+		this.sourceExcludes = this.ignores.slice();
 
 		this.windowOptions = {};
 		this.targetOptions = {
@@ -71,18 +173,39 @@ export class Project {
 		};
 	}
 
-	async addProject(projectDir: string) {
-		let project = await loadProject(projectDir, 'khafile.js', Project.platform);
+	/**
+	 * Adds the sources, assets, shaders, defines and custom targets of the project in projectDir.
+	 * windowOptions and targetOptions are deep-merged, values set by this project win over the ones of the added project.
+	 * Keys of the added project can be ignored using dotted paths, e.g. { ignoreOptions: ['targetOptions.html5.canvasId'] }.
+	 */
+	async addProject(projectDir: string, options: { ignoreOptions?: string[] } = {}) {
+		let project = await loadProject(projectDir, findProjectFile(projectDir, 'khafile.js'), Project.platform);
 		this.assetMatchers = this.assetMatchers.concat(project.assetMatchers);
-		this.sources = this.sources.concat(project.sources);
-		this.shaderMatchers = this.shaderMatchers.concat(project.shaderMatchers);
-		this.defines = this.defines.concat(project.defines);
-		this.cdefines = this.cdefines.concat(project.cdefines);
+		// Libraries both projects use must not be added twice
+		this.sources = this.sources.concat(project.sources.filter((source) => this.sources.indexOf(source) < 0));
+		this.shaderMatchers = this.shaderMatchers.concat(project.shaderMatchers.filter((matcher) => !this.shaderMatchers.some((other) => other.match === matcher.match)));
+		this.defines = this.defines.concat(project.defines.filter((define) => this.defines.indexOf(define) < 0));
+		this.cdefines = this.cdefines.concat(project.cdefines.filter((define) => this.cdefines.indexOf(define) < 0));
+		// Parameters are order-sensitive and may repeat, e.g. several --macro calls
 		this.parameters = this.parameters.concat(project.parameters);
+		this.sourceExcludes = this.sourceExcludes.concat(project.sourceExcludes.filter((exclude) => this.sourceExcludes.indexOf(exclude) < 0));
+		this.callbacks = this.callbacks.concat(project.callbacks);
+		if (project.readsPlatform) this.readsPlatform = true;
+		for (let library of project.resolvedLibraries) {
+			let existing = this.findResolvedLibrary(library.name);
+			if (existing === null) this.resolvedLibraries.push(library);
+			else this.warnAboutVersion(existing, library.version, project.name);
+		}
 		for (let customTarget of project.customTargets.keys()) {
 			this.customTargets.set(customTarget, project.customTargets.get(customTarget));
 		}
-		// windowOptions and targetOptions are ignored
+		for (let configuration of project.configurations.keys()) {
+			if (!this.configurations.has(configuration)) this.configurations.set(configuration, project.configurations.get(configuration));
+		}
+		mergeOptions(
+			{ windowOptions: this.windowOptions, targetOptions: this.targetOptions },
+			{ windowOptions: project.windowOptions, targetOptions: project.targetOptions },
+			options.ignoreOptions || [], '');
 	}
 
 	private unglob(str: string): string {
@@ -94,13 +217,22 @@ export class Project {
 		return str;
 	}
 
+	// Makes options.exclude absolute and adds the globs of .khaignore
+	private excludeOptions(options: any): any {
+		let exclude = excludePatterns(this.scriptdir, options.exclude).concat(this.ignores);
+		if (exclude.length === 0) return options;
+		return Object.assign({}, options, { exclude: exclude });
+	}
+
 	/**
 	 * Add all assets matching the match glob relative to the directory containing the current khafile.
 	 * Asset types are infered from the file suffix.
 	 * Glob syntax is very simple, the most important patterns are * for anything and ** for anything across directories.
+	 * options.exclude is a glob or a list of globs of files to leave out.
 	 */
 	addAssets(match: string, options: any) {
 		if (!options) options = {};
+		options = this.excludeOptions(options);
 
 		if (!path.isAbsolute(match)) {
 			let base = this.unglob(path.resolve(this.scriptdir));
@@ -113,16 +245,23 @@ export class Project {
 		this.assetMatchers.push({ match: match, options: options });
 	}
 
-	addSources(source: string) {
+	/**
+	 * options.exclude is a glob or a list of globs of Haxe files which are left out of the output.
+	 * Haxe still compiles an excluded file which other code imports, a directory excluded as a whole is no class path.
+	 */
+	addSources(source: string, options: { exclude?: string | string[] } = {}) {
 		this.sources.push(path.resolve(path.join(this.scriptdir, source)));
+		this.sourceExcludes = this.sourceExcludes.concat(excludePatterns(this.scriptdir, options.exclude));
 	}
 
 	/**
 	 * Add all shaders matching the match glob relative to the directory containing the current khafile.
 	 * Glob syntax is very simple, the most important patterns are * for anything and ** for anything across directories.
+	 * options.exclude is a glob or a list of globs of files to leave out.
 	 */
 	addShaders(match: string, options: any) {
 		if (!options) options = {};
+		options = this.excludeOptions(options);
 
 		if (!path.isAbsolute(match)) {
 			let base = this.unglob(path.resolve(this.scriptdir));
@@ -147,28 +286,92 @@ export class Project {
 		this.parameters.push(parameter);
 	}
 
-	addTarget(name: string, baseTarget: string, backends: string[]) {
+	/**
+	 * Adds a target which builds baseTarget with additional backends. Every backend adds the Backends/<backend>
+	 * directories of the project and of Kha to the sources and defines kha_<backend>.
+	 */
+	addTarget(name: string, baseTarget: string, backends: (string | BackendOptions)[]) {
 		this.customTargets.set(name, new Target(baseTarget, backends));
 	}
 
+	/**
+	 * Adds a build configuration which can be selected using --config name.
+	 * Its defines, cdefines and parameters are added to the project, assetOptions and shaderOptions
+	 * override the options of all asset and shader matchers and debug turns on --debug.
+	 */
+	addConfiguration(name: string, options: ConfigurationOptions) {
+		this.configurations.set(name, new Configuration(options));
+	}
+
+	/**
+	 * Adds a library by path or by name. Names are looked up in the Libraries directory and then in haxelib.
+	 * A version can be requested using 'name@1.2.3', which only accepts a library with that version.
+	 */
 	addLibrary(library: string) {
-		this.addDefine(library);
+		let name = library;
+		let version: string = null;
+		let at = library.lastIndexOf('@');
+		if (at > 0 && !/[\\\/]/.test(library.substr(at + 1))) {
+			name = library.substr(0, at);
+			version = library.substr(at + 1);
+		}
+		this.resolveLibrary(name, version, null, null, []);
+	}
+
+	private findResolvedLibrary(name: string): ResolvedLibrary {
+		for (let library of this.resolvedLibraries) {
+			if (library.name === name) return library;
+		}
+		return null;
+	}
+
+	private warnAboutVersion(library: ResolvedLibrary, wanted: string, wantedBy: string): void {
+		if (!wanted || library.version === null || wanted === library.version) return;
+		log.warn((wantedBy ? wantedBy : 'The project') + ' wants ' + library.name + ' ' + wanted + ' but version ' + library.version + ' is used'
+			+ (library.dependencyOf ? ' (required by ' + library.dependencyOf + ').' : '.'));
+	}
+
+	// Every library is added once, version is a pin from 'name@version',
+	// wanted the version a haxelib.json dependency asks for which only produces warnings
+	private resolveLibrary(name: string, version: string, wanted: string, dependencyOf: string, chain: string[]) {
+		let library = version === null ? name : name + '@' + version;
+		if (chain.indexOf(name) >= 0) {
+			log.warn('Library dependency cycle ' + chain.concat(name).join(' -> ') + '.');
+			return;
+		}
+		let existing = this.findResolvedLibrary(name);
+		if (existing !== null) {
+			if (dependencyOf !== null) this.findResolvedLibrary(dependencyOf).dependencies.push(name);
+			this.warnAboutVersion(existing, version || wanted, dependencyOf);
+			return;
+		}
+		this.addDefine(name);
 		let self = this;
-		function findLibraryDirectory(name: string) {
+		let mismatches: string[] = [];
+		function matches(dir: string): boolean {
+			if (version === null) return true;
+			let found = libraryVersion(dir);
+			if (found === version) return true;
+			mismatches.push(dir + ' has version ' + (found === null ? 'unknown' : found));
+			return false;
+		}
+		function findLibraryDirectory(name: string): { libpath: string, libroot: string, source: string, version: string } {
 			if (path.isAbsolute(name)) {
-				return { libpath: name, libroot: name };
+				if (matches(name)) return { libpath: name, libroot: name, source: 'path', version: libraryVersion(name) };
+				return null;
 			}
 
 			// check relative path
 			if (fs.existsSync(path.resolve(name))) {
-				return { libpath: name, libroot: name };
+				if (matches(name)) return { libpath: name, libroot: name, source: 'path', version: libraryVersion(name) };
+				return null;
 			}
 
 			// Tries to load the default library from inside the kha project.
 			// e.g. 'Libraries/wyngine'
 			let libpath = path.join(self.scriptdir, self.localLibraryPath, name);
-			if (fs.existsSync(libpath) && fs.statSync(libpath).isDirectory()) {
-				return { libpath: path.resolve(libpath), libroot: self.localLibraryPath + '/' + name };
+			if (fs.existsSync(libpath) && fs.statSync(libpath).isDirectory() && matches(libpath)) {
+				return { libpath: path.resolve(libpath), libroot: self.localLibraryPath + '/' + name, source: 'local', version: libraryVersion(libpath) };
 			}
 			// If the library couldn't be found in Libraries folder, try
 			// looking in the haxelib folders.
@@ -182,25 +385,53 @@ export class Project {
 				}
 			}
 			if (fs.existsSync(libpath) && fs.statSync(libpath).isDirectory()) {
-				if (fs.existsSync(path.join(libpath, '.dev'))) {
-					return { libpath: fs.readFileSync(path.join(libpath, '.dev'), 'utf8'), libroot: libpath };
+				if (version !== null) {
+					// A pinned version ignores .dev and .current, e.g. 'hxcpp@3.2.193' => 'hxcpp/3,2,193'
+					let pinned = path.join(libpath, version.replace(/\./g, ','));
+					if (fs.existsSync(pinned) && fs.statSync(pinned).isDirectory()) {
+						return { libpath: pinned, libroot: libpath, source: 'haxelib', version: version };
+					}
+					mismatches.push(libpath + ' does not contain version ' + version);
+				}
+				else if (fs.existsSync(path.join(libpath, '.dev'))) {
+					let dev = fs.readFileSync(path.join(libpath, '.dev'), 'utf8');
+					return { libpath: dev, libroot: libpath, source: 'haxelib-dev', version: libraryVersion(dev) };
 				}
 				else if (fs.existsSync(path.join(libpath, '.current'))) {
 					// Get the latest version of the haxelib path,
 					// e.g. for 'hxcpp', latest version '3,2,193'
 					let current = fs.readFileSync(path.join(libpath, '.current'), 'utf8');
-					return { libpath: path.join(libpath, current.replace(/\./g, ',')), libroot: libpath };
+					return { libpath: path.join(libpath, current.replace(/\./g, ',')), libroot: libpath, source: 'haxelib', version: current.trim() };
 				}
 			}
+			return null;
+		}
+
+		let libInfo = findLibraryDirectory(name);
+		if (libInfo === null) {
 			// Show error if library isn't found in Libraries or haxelib folder
-			log.error('Error: Library ' + name + ' not found.');
+			log.error('Error: Library ' + library + ' not found.');
+			for (let mismatch of mismatches) {
+				log.error('  ' + mismatch + '.');
+			}
 			log.error('Add it to the \'Libraries\' subdirectory of your project. You may also install it via haxelib but that\'s less cool.');
-			throw 'Library ' + name + ' not found.';
+			throw new LibraryNotFoundError('Library ' + library + ' not found.', { file: path.resolve(self.scriptdir, self.localLibraryPath, name), output: mismatches.join('\n') });
 		}
-
-		let libInfo = findLibraryDirectory(library);
 		let dir = libInfo.libpath;
 
+		let resolved: ResolvedLibrary = {
+			name: name,
+			requested: version,
+			version: libInfo.version,
+			source: libInfo.source,
+			path: dir,
+			dependencyOf: dependencyOf,
+			dependencies: []
+		};
+		this.resolvedLibraries.push(resolved);
+		if (dependencyOf !== null) this.findResolvedLibrary(dependencyOf).dependencies.push(name);
+		this.warnAboutVersion(resolved, wanted, dependencyOf);
+
 		if (dir !== '') {
 			this.libraries.push({
 				libpath: dir,
@@ -223,7 +454,7 @@ export class Project {
 				if (options.dependencies) {
 					for (let dependency in options.dependencies) {
 						if (dependency.toLowerCase() !== 'kha') {
-							this.addLibrary(dependency);
+							this.resolveLibrary(dependency, null, options.dependencies[dependency] || null, name, chain.concat(name));
 						}
 					}
 				}
@@ -233,7 +464,7 @@ export class Project {
 				// by the Sources folder.
 				// e.g. Libraries/wyngine/Sources
 				if (!fs.existsSync(path.join(dir, 'Sources'))) {
-					log.info('Warning: No haxelib.json and no Sources directory found in library ' + library + '.');
+					log.warn('No haxelib.json and no Sources directory found in library ' + library + '.');
 				}
 				this.sources.push(path.join(dir, 'Sources'));
 			}
@@ -1,57 +1,417 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import * as vm from 'vm';
+import {createCallbacks, KhafileCallbacks} from './Hooks';
+import {validate} from './JsonSchema';
+import {KhamakeError, ProjectLoadError, ToolNotFoundError} from './KhamakeError';
 import * as log from './log';
 import {Platform} from './Platform';
 import {Project} from './Project';
 
-export let Callbacks = {
-	preAssetConversion:   [() => {}],
-	preShaderCompilation: [() => {}],
-	preHaxeCompilation:   [() => {}],
-	postHaxeCompilation:  [() => {}],
-	postCppCompilation:   [() => {}]
-};
+/**
+ * How khafiles are evaluated, set from the command line options before a project is loaded.
+ */
+export interface KhafileEvaluation {
+	/** Seconds a khafile may take to call resolve, 0 waits forever */
+	timeout: number;
+	/** Hides process and only allows requiring allowedModules */
+	guarded: boolean;
+	allowedModules: string[];
+}
+
+let evaluation: KhafileEvaluation = { timeout: 0, guarded: false, allowedModules: [] };
+
+export function setEvaluation(settings: KhafileEvaluation): void {
+	evaluation = settings;
+}
+
+/**
+ * Counts down the timeout of a khafile. It is paused while the projects the khafile adds
+ * are loaded, they count down their own timeout.
+ */
+class LoadTimer {
+	remaining: number;
+	started: number;
+	pauses: number;
+	timer: NodeJS.Timer;
+	expire: () => void;
+
+	constructor(seconds: number, expire: () => void) {
+		this.remaining = seconds * 1000;
+		this.pauses = 0;
+		this.expire = expire;
+		this.start();
+	}
+
+	private start(): void {
+		this.started = Date.now();
+		this.timer = setTimeout(this.expire, this.remaining);
+	}
+
+	pause(): void {
+		if (this.pauses++ > 0 || this.timer === null) return;
+		clearTimeout(this.timer);
+		this.timer = null;
+		this.remaining -= Date.now() - this.started;
+	}
+
+	resume(): void {
+		if (--this.pauses > 0 || this.remaining <= 0) return;
+		this.start();
+	}
+
+	stop(): void {
+		if (this.timer !== null) clearTimeout(this.timer);
+		this.timer = null;
+		this.remaining = 0;
+	}
+}
+
+// The timers of the khafiles being loaded, the ones loaded earlier added the ones loaded later
+let loadTimers: LoadTimer[] = [];
+
+// khafile.js is preferred, the other formats are used when it does not exist
+const projectFileNames = ['khafile.js', 'khafile.ts', 'khafile.mjs', 'khafile.json'];
+
+export function findProjectFile(from: string, projectfile: string): string {
+	if (projectfile !== projectFileNames[0] || fs.existsSync(path.join(from, projectfile))) return projectfile;
+	for (let name of projectFileNames) {
+		if (fs.existsSync(path.join(from, name))) return name;
+	}
+	return projectfile;
+}
+
+/**
+ * What khafile.ts and khafile.mjs files get passed when they export a function.
+ */
+export interface KhafileContext {
+	Project: typeof Project;
+	Platform: typeof Platform;
+	platform: string;
+	callbacks: KhafileCallbacks;
+}
+
+// For each line of transpiled code the columns where a mapping starts and the line and column in khafile.ts they map to
+type SourceMapping = number[][][];
+
+const base64Digits = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Decodes the Base64 VLQ mappings of a source map with a single source
+function decodeMappings(mappings: string): SourceMapping {
+	let lines: SourceMapping = [];
+	let sourceLine = 0;
+	let sourceColumn = 0;
+	for (let line of mappings.split(';')) {
+		let segments: number[][] = [];
+		let column = 0;
+		for (let segment of line.split(',')) {
+			if (segment === '') continue;
+			let values: number[] = [];
+			let value = 0;
+			let shift = 0;
+			for (let char of segment) {
+				let digit = base64Digits.indexOf(char);
+				value += (digit & 31) << shift;
+				if (digit & 32) {
+					shift += 5;
+				}
+				else {
+					values.push(value & 1 ? -(value >> 1) : value >> 1);
+					value = 0;
+					shift = 0;
+				}
+			}
+			column += values[0];
+			if (values.length >= 4) {
+				sourceLine += values[2];
+				sourceColumn += values[3];
+				segments.push([column, sourceLine, sourceColumn]);
+			}
+		}
+		lines.push(segments);
+	}
+	return lines;
+}
+
+// Lines and columns start at 1 like in stack traces, column 0 stands for an unknown column
+function originalPosition(mapping: SourceMapping, line: number, column: number): { line: number, column: number } {
+	let segments = mapping[line - 1];
+	if (!segments || segments.length === 0) return null;
+	let found = segments[0];
+	for (let segment of segments) {
+		if (segment[0] <= column - 1) found = segment;
+	}
+	if (column === 0) return { line: found[1] + 1, column: 0 };
+	return { line: found[1] + 1, column: found[2] + column - found[0] };
+}
+
+function transpile(file: string, source: string): { code: string, mapping: SourceMapping } {
+	let ts: typeof import('typescript');
+	try {
+		ts = require('typescript');
+	}
+	catch (error) {
+		throw new ToolNotFoundError('TypeScript is needed to load ' + file + ' but could not be found.', { file: file, cause: error });
+	}
+	let output = ts.transpileModule(source, {
+		compilerOptions: { target: ts.ScriptTarget.ES2017, module: ts.ModuleKind.CommonJS, sourceMap: true },
+		fileName: file,
+		reportDiagnostics: true
+	});
+	let errors = output.diagnostics.filter((diagnostic) => diagnostic.category === ts.DiagnosticCategory.Error);
+	if (errors.length > 0) {
+		let messages = errors.map((diagnostic) => {
+			let message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+			if (!diagnostic.file) return message;
+			let position = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+			return file + '(' + (position.line + 1) + ',' + (position.character + 1) + '): ' + message;
+		});
+		for (let message of messages) log.error(message);
+		throw new ProjectLoadError('Could not compile ' + file + '.', { file: file, output: messages.join('\n') });
+	}
+	// The transpiled code starts with additional lines like "use strict", errors are reported through the source map
+	return { code: output.outputText, mapping: decodeMappings(JSON.parse(output.sourceMapText).mappings) };
+}
+
+// Created at runtime because tsc would turn import() into require(), which can not load ES modules
+let importModule: (specifier: string) => Promise<any> = null;
+let moduleLoads = 0;
+
+// import() of ES modules works without flags since Node 12.17 and 13.2
+function supportsModules(): boolean {
+	let [major, minor] = process.versions.node.split('.').map((part) => parseInt(part));
+	return major > 13 || (major === 13 && minor >= 2) || (major === 12 && minor >= 17);
+}
+
+function importProjectFile(file: string): Promise<any> {
+	if (!supportsModules()) {
+		throw new ProjectLoadError(file + ' needs Node 12.17 or newer, this is Node ' + process.versions.node + '. Use khafile.js or khafile.ts instead.', { file: file });
+	}
+	if (importModule === null) importModule = new Function('specifier', 'return import(specifier);') as any;
+	// The query defeats the module cache, khafiles are evaluated once per platform
+	let url = require('url').pathToFileURL(path.resolve(file)).href + '?load=' + (++moduleLoads);
+	return importModule(url);
+}
+
+// A require function resolving relative to file, createRequire exists since Node 12.2 and createRequireFromPath since 10.12
+function requireFrom(file: string): NodeRequire {
+	let Module = require('module');
+	let createRequire = Module.createRequire || Module.createRequireFromPath;
+	return createRequire(path.resolve(file));
+}
+
+// The names khafile.js and khafile.ts can use without declaring them
+const khafileParameters = ['Project', 'Platform', 'platform', 'require', 'process', 'resolve', 'reject', 'callbacks', 'module', 'exports'];
+
+// Like Node's module wrapper the code starts on the first line so line numbers match the khafile
+function wrapperHeader(): string {
+	return '(async function (' + khafileParameters.join(', ') + ') {';
+}
+
+function guardedRequire(file: string): (name: string) => any {
+	return (name: string) => {
+		if (evaluation.allowedModules.indexOf(name) < 0) {
+			throw new ProjectLoadError(file + ' can not require ' + name + ' with --khafile-guard, allowed are ' + evaluation.allowedModules.join(', ') + '.', { file: file });
+		}
+		return require(name);
+	};
+}
+
+// The guard catches khafiles which accidentally depend on the machine they are built on.
+// It is no sandbox, every function passed into the vm context leads back to the real process.
+function evaluate(file: string, code: string, values: {[name: string]: any}): Promise<void> {
+	let script = new vm.Script(wrapperHeader() + code + '\n})', { filename: path.resolve(file) });
+	let khafile: Function;
+	if (evaluation.guarded) {
+		values.require = guardedRequire(file);
+		values.process = { platform: process.platform, arch: process.arch };
+		khafile = script.runInContext(vm.createContext({ console: console }));
+	}
+	else {
+		khafile = script.runInThisContext();
+	}
+	return khafile.apply(null, khafileParameters.map((name) => values[name]));
+}
+
+// Points errors thrown while evaluating a khafile at the line which caused them
+function locate(file: string, error: any, mapping: SourceMapping = null): Error {
+	if (error instanceof KhamakeError || !(error instanceof Object) || typeof error.stack !== 'string') return error;
+	let filename = path.resolve(file);
+	let location: RegExpExecArray = null;
+	if (error.stack.startsWith(filename + ':')) {
+		// Syntax errors start with the location instead of listing it in the trace
+		location = /^:(\d+)()/.exec(error.stack.substr(filename.length));
+	}
+	else {
+		let index = error.stack.indexOf(filename + ':');
+		if (index >= 0) location = /^:(\d+):(\d+)/.exec(error.stack.substr(index + filename.length));
+	}
+	if (location === null) return error;
+	let line = parseInt(location[1]);
+	let column = location[2] !== '' ? parseInt(location[2]) : 0;
+	if (line === 1 && column > 0) column -= wrapperHeader().length;
+	if (mapping !== null) {
+		let original = originalPosition(mapping, line, column);
+		if (original !== null) {
+			line = original.line;
+			column = original.column;
+		}
+	}
+	let where = file + ':' + line;
+	if (column > 0) where += ':' + column;
+	return new ProjectLoadError(where + ': ' + error.message, { file: file, output: error.stack, cause: error });
+}
+
+async function projectFromExport(file: string, exported: any, context: KhafileContext): Promise<Project> {
+	if (typeof exported === 'function') {
+		exported = await exported(context);
+	}
+	if (!(exported instanceof Project)) {
+		throw new ProjectLoadError(file + ' has to export a Project or a function returning one.', { file: file });
+	}
+	return exported;
+}
+
+// Every key of khafile.json corresponds to a Project method, see khafile.schema.json
+function projectFromJson(file: string, data: string): Project {
+	let json: any;
+	try {
+		json = JSON.parse(data);
+	}
+	catch (error) {
+		throw new ProjectLoadError('Could not parse ' + file + ': ' + error.message, { file: file, cause: error });
+	}
+	let schema = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'khafile.schema.json'), 'utf8'));
+	let errors = validate(schema, json);
+	if (errors.length > 0) {
+		for (let error of errors) log.error(file + ': ' + error);
+		throw new ProjectLoadError('Invalid ' + file + ': ' + errors[0] + (errors.length > 1 ? ' (and ' + (errors.length - 1) + ' more)' : ''), { file: file, output: errors.join('\n') });
+	}
+
+	let project = new Project(json.name);
+	for (let source of json.sources || []) {
+		if (typeof source === 'string') project.addSources(source);
+		else project.addSources(source.path, { exclude: source.exclude });
+	}
+	for (let asset of json.assets || []) {
+		if (typeof asset === 'string') project.addAssets(asset, {});
+		else project.addAssets(asset.match, asset.options);
+	}
+	for (let shader of json.shaders || []) {
+		if (typeof shader === 'string') project.addShaders(shader, {});
+		else project.addShaders(shader.match, shader.options);
+	}
+	for (let library of json.libraries || []) {
+		project.addLibrary(library);
+	}
+	for (let define of json.defines || []) {
+		project.addDefine(define);
+	}
+	for (let define of json.cdefines || []) {
+		project.addCDefine(define);
+	}
+	for (let parameter of json.parameters || []) {
+		project.addParameter(parameter);
+	}
+	Object.assign(project.windowOptions, json.windowOptions || {});
+	for (let platform in json.targetOptions || {}) {
+		project.targetOptions[platform] = Object.assign(project.targetOptions[platform] || {}, json.targetOptions[platform]);
+	}
+	for (let name in json.targets || {}) {
+		project.addTarget(name, json.targets[name].baseTarget, json.targets[name].backends || []);
+	}
+	for (let name in json.configurations || {}) {
+		project.addConfiguration(name, json.configurations[name]);
+	}
+	return project;
+}
 
 export async function loadProject(from: string, projectfile: string, platform: string): Promise<Project> {
 	return new Promise<Project>((resolve, reject) => {
-		fs.readFile(path.join(from, projectfile), 'utf8', (err, data) => {
+		let file = path.join(from, projectfile);
+		fs.readFile(file, 'utf8', async (err, data) => {
 			if (err) {
-				throw new Error('Error reading ' + projectfile + ' from ' + from + '.');
+				reject(new ProjectLoadError('Error reading ' + projectfile + ' from ' + from + '.', { file: path.join(from, projectfile), cause: err }));
+				return;
 			}
 
 			let resolved = false;
-			let callbacks = {
-				preAssetConversion:   () => {},
-				preShaderCompilation: () => {},
-				preHaxeCompilation:   () => {},
-				postHaxeCompilation:  () => {},
-				postCppCompilation:   () => {}
+			let timer: LoadTimer = null;
+			let parents: LoadTimer[] = [];
+			let settle = () => {
+				resolved = true;
+				if (timer === null) return;
+				timer.stop();
+				loadTimers.splice(loadTimers.indexOf(timer), 1);
+				for (let parent of parents) parent.resume();
 			};
+			let callbacks = createCallbacks();
 			let resolver = (project: Project) => {
-				resolved = true;
-				Callbacks.preAssetConversion.push(callbacks.preAssetConversion);
-				Callbacks.preShaderCompilation.push(callbacks.preShaderCompilation);
-				Callbacks.preHaxeCompilation.push(callbacks.preHaxeCompilation);
-				Callbacks.postHaxeCompilation.push(callbacks.postHaxeCompilation);
-				Callbacks.postCppCompilation.push(callbacks.postCppCompilation);
+				if (resolved) return;
+				settle();
+				// Kept with the project instead of globally so building again does not call them twice
+				project.callbacks.push(callbacks);
+				// Mentioning it is enough, what the khafile does with it is only known by evaluating it again
+				if (!projectfile.endsWith('.json') && /\bplatform\b/.test(data)) project.readsPlatform = true;
 				resolve(project);
 			};
+			let rejecter = (error: any) => {
+				if (resolved) return;
+				settle();
+				reject(error);
+			};
+
+			if (evaluation.timeout > 0) {
+				parents = loadTimers.slice();
+				for (let parent of parents) parent.pause();
+				timer = new LoadTimer(evaluation.timeout, () => {
+					rejecter(new ProjectLoadError(projectfile + ' did not call resolve within ' + evaluation.timeout + ' seconds, no project created.', { file: file }));
+				});
+				loadTimers.push(timer);
+			}
+			else {
+				process.on('exit', (code: number) => {
+					if (!resolved) {
+						console.error('Error: ' + projectfile + ' did not call resolve, no project created.');
+					}
+				});
+			}
 
-			process.on('exit', (code: number) => {
-				if (!resolved) {
-					console.error('Error: khafile.js did not call resolve, no project created.');
-				}
-			});
-	
 			Project.platform = platform;
 			Project.scriptdir = from;
+			let context: KhafileContext = { Project: Project, Platform: Platform, platform: platform, callbacks: callbacks };
+			let values: {[name: string]: any} = { Project: Project, Platform: Platform, platform: platform, require: require, process: process, resolve: resolver, reject: rejecter, callbacks: callbacks };
+			let mapping: SourceMapping = null;
 			try {
-				let AsyncFunction = Object.getPrototypeOf(async () => {}).constructor;
-				new AsyncFunction('Project', 'Platform', 'platform', 'require', 'process', 'resolve', 'reject', 'callbacks', data)
-					(Project, Platform, platform, require, process, resolver, reject, callbacks);
+				if (projectfile.endsWith('.json')) {
+					resolver(projectFromJson(file, data));
+				}
+				else if (projectfile.endsWith('.mjs')) {
+					if (evaluation.guarded) {
+						throw new ProjectLoadError(projectfile + ' can not be checked by --khafile-guard, use khafile.js or khafile.ts.', { file: file });
+					}
+					let exports = await importProjectFile(file);
+					resolver(await projectFromExport(file, exports.default, context));
+				}
+				else if (projectfile.endsWith('.ts')) {
+					// Evaluated like khafile.js, imports become require calls relative to the khafile
+					let module = { exports: {} as any };
+					values.require = requireFrom(file);
+					values.module = module;
+					values.exports = module.exports;
+					let transpiled = transpile(file, data);
+					mapping = transpiled.mapping;
+					await evaluate(file, transpiled.code, values);
+					if (!resolved && module.exports.default !== undefined) {
+						resolver(await projectFromExport(file, module.exports.default, context));
+					}
+				}
+				else {
+					await evaluate(file, data, values);
+				}
 			}
 			catch (error) {
-				reject(error);
+				rejecter(locate(file, error, mapping));
 			}
 		});
 	});
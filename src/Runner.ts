@@ -0,0 +1,110 @@
+import * as child_process from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {BuildError, ToolNotFoundError} from './KhamakeError';
+import {BuildResult} from './BuildResult';
+import * as dryrun from './DryRun';
+import * as log from './log';
+import {Options} from './Options';
+import {Platform} from './Platform';
+import {Server} from './Server';
+
+function findKrom(options: Options): string {
+	if (options.krom) return path.resolve(options.krom);
+	let candidates: string[];
+	if (os.platform() === 'win32') candidates = [path.join('win32', 'Krom.exe')];
+	else if (os.platform() === 'darwin') candidates = [path.join('macos', 'Krom.app', 'Contents', 'MacOS', 'Krom')];
+	else candidates = [path.join('linux', 'Krom')];
+	for (let candidate of candidates) {
+		let krom = path.join(options.kha, 'Krom', candidate);
+		if (fs.existsSync(krom)) return krom;
+	}
+	// Hope for a Krom in the PATH
+	return 'Krom';
+}
+
+function findJar(options: Options, result: BuildResult): string {
+	let names = [options.main + '.jar', options.main + '-Debug.jar'];
+	for (let dir of [result.outputDirectory, path.join(result.outputDirectory, 'Sources')]) {
+		for (let name of names) {
+			if (fs.existsSync(path.join(dir, name))) return path.resolve(dir, name);
+		}
+	}
+	throw new BuildError('No jar found in ' + result.outputDirectory + ', the Java sources have to be compiled first.');
+}
+
+function findExecutable(result: BuildResult, baseTarget: string): string {
+	if (result.executable === null) {
+		throw new BuildError('Running ' + baseTarget + ' is not supported, please start it using the generated project.');
+	}
+	if (!dryrun.get() && !fs.existsSync(result.executable)) {
+		throw new BuildError('Executable ' + result.executable + ' not found, was it compiled successfully?');
+	}
+	return result.executable;
+}
+
+function execute(exe: string, args: string[], cwd: string): Promise<number> {
+	if (dryrun.get()) {
+		dryrun.command(exe, args, cwd);
+		return Promise.resolve(0);
+	}
+	return new Promise<number>((resolve, reject) => {
+		log.info('Running ' + exe + '...');
+		let child = child_process.spawn(exe, args, { cwd: cwd });
+
+		child.stdout.on('data', (data: any) => {
+			log.info(data.toString(), false);
+		});
+
+		child.stderr.on('data', (data: any) => {
+			log.error(data.toString(), false);
+		});
+
+		child.on('error', (error: Error) => {
+			reject(new ToolNotFoundError('Could not start ' + exe + ': ' + error.message, { cause: error }));
+		});
+
+		child.on('close', (code: number, signal: string) => {
+			if (signal) log.error(exe + ' was terminated by ' + signal + '.');
+			resolve(code === null ? 1 : code);
+		});
+	});
+}
+
+function serve(options: Options, result: BuildResult, onRebuild: (listener: () => void) => void): number {
+	if (dryrun.get()) {
+		log.info('[serve] ' + result.outputDirectory + ' on http://localhost:' + options.port + '/');
+		return null;
+	}
+	let server = new Server(result.outputDirectory, options.port, options.watch);
+	server.start();
+	if (options.watch) {
+		onRebuild(() => {
+			server.reload();
+		});
+	}
+	log.info('Open http://localhost:' + options.port + '/ in your browser.');
+	return null;
+}
+
+/**
+ * Starts what was just built and resolves to its exit code.
+ * html5 targets are served instead and resolve to null right away.
+ */
+export async function runTarget(options: Options, result: BuildResult, baseTarget: string, onRebuild: (listener: () => void) => void): Promise<number> {
+	switch (baseTarget) {
+		case Platform.Krom:
+			return await execute(findKrom(options), [path.resolve(result.outputDirectory), path.resolve(result.resourceDirectory)], result.outputDirectory);
+		case Platform.HTML5:
+		case Platform.DebugHTML5:
+		case Platform.HTML5Worker:
+			return serve(options, result, onRebuild);
+		case Platform.Node:
+			return await execute(process.execPath, ['kha.js'], result.outputDirectory);
+		case Platform.Java:
+			return await execute('java', ['-jar', findJar(options, result)], result.outputDirectory);
+		default:
+			return await execute(findExecutable(result, baseTarget), [], result.outputDirectory);
+	}
+}
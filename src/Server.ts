@@ -0,0 +1,129 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as net from 'net';
+import * as path from 'path';
+import {Options} from './Options';
+import {targetSysdir} from './Platform';
+import * as log from './log';
+
+const reloadPath = '/khamake-reload';
+
+const reloadScript = '<script>\n'
+	+ '(function () {\n'
+	+ '\tvar socket = new WebSocket((location.protocol === \'https:\' ? \'wss://\' : \'ws://\') + location.host + \'' + reloadPath + '\');\n'
+	+ '\tsocket.onmessage = function (event) {\n'
+	+ '\t\tif (event.data === \'reload\') location.reload();\n'
+	+ '\t};\n'
+	+ '})();\n'
+	+ '</script>\n';
+
+// Serves the output directory of the first target, the khafile is not needed for that
+export function serverDirectory(options: Options): string {
+	return path.resolve(options.to, targetSysdir(options.target.split(',')[0]));
+}
+
+export class Server {
+	directory: string;
+	port: number;
+	liveReload: boolean;
+	server: http.Server;
+	sockets: net.Socket[];
+
+	constructor(directory: string, port: number, liveReload: boolean) {
+		this.directory = directory;
+		this.port = port;
+		this.liveReload = liveReload;
+		this.sockets = [];
+	}
+
+	start(): void {
+		let nstatic = require('node-static');
+		let fileServer = new nstatic.Server(this.directory, { cache: 0 });
+		this.server = http.createServer((request: http.IncomingMessage, response: http.ServerResponse) => {
+			request.addListener('end', () => {
+				let url = request.url.split('?')[0];
+				if (this.liveReload && (url === '/' || url === '/index.html')) {
+					this.serveIndex(fileServer, request, response);
+				}
+				else {
+					fileServer.serve(request, response);
+				}
+			}).resume();
+		});
+		this.server.on('upgrade', (request: http.IncomingMessage, socket: net.Socket) => {
+			this.upgrade(request, socket);
+		});
+		this.server.on('error', (e: any) => {
+			if (e.code === 'EADDRINUSE') {
+				log.error('Error: Port ' + this.port + ' is already in use.');
+				log.error('Please close the competing program (maybe another instance of khamake?)');
+				log.error('or switch to a different port using the --port argument.');
+			}
+			else {
+				log.error('Error: ' + e.message);
+			}
+		});
+		log.info('Running server on ' + this.port + ', serving ' + this.directory);
+		this.server.listen(this.port);
+	}
+
+	/**
+	 * Tells all connected browsers to reload the page.
+	 */
+	reload(): void {
+		if (this.sockets.length === 0) return;
+		let payload = Buffer.from('reload');
+		let frame = Buffer.concat([Buffer.from([0x81, payload.length]), payload]);
+		for (let socket of this.sockets) {
+			socket.write(frame);
+		}
+	}
+
+	close(): void {
+		for (let socket of this.sockets) {
+			socket.destroy();
+		}
+		this.sockets = [];
+		if (this.server) this.server.close();
+	}
+
+	private serveIndex(fileServer: any, request: http.IncomingMessage, response: http.ServerResponse): void {
+		fs.readFile(path.join(this.directory, 'index.html'), 'utf8', (error: NodeJS.ErrnoException, html: string) => {
+			if (error) {
+				fileServer.serve(request, response);
+				return;
+			}
+			let body = html.lastIndexOf('</body>');
+			html = body >= 0 ? html.substr(0, body) + reloadScript + html.substr(body) : html + reloadScript;
+			response.writeHead(200, { 'Content-Type': 'text/html', 'Cache-Control': 'no-cache' });
+			response.end(html);
+		});
+	}
+
+	// Just enough of RFC 6455 to push text messages to the browser
+	private upgrade(request: http.IncomingMessage, socket: net.Socket): void {
+		let key = request.headers['sec-websocket-key'];
+		if (!this.liveReload || request.url !== reloadPath || typeof key !== 'string') {
+			socket.destroy();
+			return;
+		}
+		let accept = crypto.createHash('sha1').update(key + '258EAFA5-E914-47DA-95CA-C5AB0DC85B11').digest('base64');
+		socket.write('HTTP/1.1 101 Switching Protocols\r\n'
+			+ 'Upgrade: websocket\r\n'
+			+ 'Connection: Upgrade\r\n'
+			+ 'Sec-WebSocket-Accept: ' + accept + '\r\n\r\n');
+		this.sockets.push(socket);
+		socket.on('data', (data: Buffer) => {
+			// Answer close frames, everything else the browser sends is ignored
+			if ((data[0] & 0x0f) === 0x8) socket.end(Buffer.from([0x88, 0]));
+		});
+		socket.on('error', () => {
+			socket.destroy();
+		});
+		socket.on('close', () => {
+			let index = this.sockets.indexOf(socket);
+			if (index >= 0) this.sockets.splice(index, 1);
+		});
+	}
+}
@@ -3,12 +3,18 @@ import * as fs from 'fs-extra';
 import * as os from 'os';
 import * as path from 'path';
 import * as chokidar from 'chokidar';
+import {openCache} from './BuildCache';
+import {ignoredFiles} from './Exclude';
+import {OutputManifest} from './OutputManifest';
 import * as Throttle from 'promise-parallel-throttle';
 import {KhaExporter} from './Exporters/KhaExporter';
 import {GraphicsApi} from './GraphicsApi';
 import {Options} from './Options';
 import {Platform} from './Platform';
 import {AssetConverter} from './AssetConverter';
+import {FileScanner} from './FileScanner';
+import * as dryrun from './DryRun';
+import {ShaderCompileError, ToolNotFoundError} from './KhamakeError';
 import * as log from './log';
 
 export interface Variable {
@@ -33,6 +39,28 @@ export class CompiledShader {
 	}
 }
 
+/**
+ * Every file a shader includes, directly or through other includes, resolved like krafix does relative to the including file.
+ */
+function includedFiles(file: string, found: string[] = []): string[] {
+	let source: string;
+	try {
+		source = fs.readFileSync(file, 'utf8');
+	}
+	catch (error) {
+		return found;
+	}
+	let include = /^\s*#\s*include\s*["<]([^">]+)[">]/gm;
+	let match: RegExpExecArray;
+	while ((match = include.exec(source)) !== null) {
+		let included = path.resolve(path.dirname(file), match[1]);
+		if (found.indexOf(included) >= 0) continue;
+		found.push(included);
+		includedFiles(included, found);
+	}
+	return found;
+}
+
 export class ShaderCompiler {
 	exporter: KhaExporter;
 	platform: string;
@@ -43,9 +71,13 @@ export class ShaderCompiler {
 	builddir: string;
 	options: Options;
 	shaderMatchers: Array<{ match: string, options: any }>;
+	scanner: FileScanner;
 	watcher: fs.FSWatcher;
+	onRebuild: () => void = null;
+	outputs: OutputManifest = null;
+	private compiled: Map<string, CompiledShader>[] = [];
 
-	constructor(exporter: KhaExporter, platform: string, compiler: string, to: string, temp: string, builddir: string, options: Options, shaderMatchers: Array<{ match: string, options: any }>) {
+	constructor(exporter: KhaExporter, platform: string, compiler: string, to: string, temp: string, builddir: string, options: Options, shaderMatchers: Array<{ match: string, options: any }>, scanner: FileScanner = null) {
 		this.exporter = exporter;
 		if (platform.endsWith('-native')) platform = platform.substr(0, platform.length - '-native'.length);
 		if (platform.endsWith('-hl')) platform = platform.substr(0, platform.length - '-hl'.length);
@@ -57,6 +89,7 @@ export class ShaderCompiler {
 		this.temp = temp;
 		this.builddir = builddir;
 		this.shaderMatchers = shaderMatchers;
+		this.scanner = scanner;
 	}
 
 	close(): void {
@@ -179,77 +212,24 @@ export class ShaderCompiler {
 		return new Promise<CompiledShader[]>((resolve, reject) => {
 			let shaders: string[] = [];
 			let ready = false;
-			this.watcher = chokidar.watch(match, { ignored: /[\/\\]\.git/, persistent: watch });
-			this.watcher.on('add', (filepath: string) => {
-				let file = path.parse(filepath);
-				if (ready) {
-					switch (file.ext) {
-						case '.glsl':
-							if (!file.name.endsWith('.inc')) {
-								log.info('Compiling ' + file.name);
-								this.compileShader(filepath, options, recompileAll);
-							}
-							break;
-					}
-				}
-				else {
-					switch (file.ext) {
-						case '.glsl':
-							if (!file.name.endsWith('.inc')) {
-								shaders.push(filepath);
-							}
-							break;
-					}
-				}
-			});
-			if (watch) {
-				this.watcher.on('change', (filepath: string) => {
-					let file = path.parse(filepath);
-					switch (file.ext) {
-						case '.glsl':
-							if (!file.name.endsWith('.inc')) {
-								log.info('Recompiling ' + file.name);
-								this.compileShader(filepath, options, recompileAll);
-							}
-							break;
-					}
-				});
-			}
-			this.watcher.on('unlink', (file: string) => {
+			let compiledShaders = new Map<string, CompiledShader>();
+			this.compiled.push(compiledShaders);
 
-			});
-			this.watcher.on('ready', async () => {
+			const compileShaders = async () => {
 				ready = true;
-				let compiledShaders: CompiledShader[] = [];
 
 				const self = this;
 				async function compile(shader: any, index: number) {
 					let parsed = path.parse(shader);
 					log.info('Compiling shader ' + (index + 1) + ' of ' + shaders.length + ' (' + parsed.base + ').');
-					let compiledShader: CompiledShader = null;
 					try {
-						compiledShader = await self.compileShader(shader, options, recompileAll);
+						compiledShaders.set(shader, await self.compileForMatcher(shader, options, recompileAll));
 					}
 					catch (error) {
 						log.error('Compiling shader ' + (index + 1) + ' of ' + shaders.length + ' (' + parsed.base + ') failed:');
-						log.error(error);
+						log.error(error.toString());
 						return Promise.reject(error);
 					}
-					if (compiledShader === null) {
-						compiledShader = new CompiledShader();
-						// mark variables as invalid, so they are loaded from previous compilation
-						compiledShader.files = null;
-						compiledShader.inputs = null;
-						compiledShader.outputs = null;
-						compiledShader.uniforms = null;
-						compiledShader.types = null;
-					}
-					if (compiledShader.files != null && compiledShader.files.length === 0) {
-						// TODO: Remove when krafix has been recompiled everywhere
-						compiledShader.files.push(parsed.name + '.' + self.type);
-					}
-					compiledShader.name = AssetConverter.createExportInfo(parsed, false, options, self.exporter.options.from).name;
-					compiledShaders.push(compiledShader);
 					++index;
 					return Promise.resolve();
 				}
@@ -276,30 +256,149 @@ export class ShaderCompiler {
 							await compile(shader, index);
 						}
 						catch (err) {
-							reject();
+							reject(err);
 							return;
 						}
 						index += 1;
 					}
 				}
 
-				resolve(compiledShaders);
+				resolve(Array.from(compiledShaders.values()));
+			};
+
+			const recompile = (filepath: string) => {
+				this.compileForMatcher(filepath, options, recompileAll).then((compiledShader) => {
+					compiledShaders.set(filepath, compiledShader);
+					openCache(this.options.to).save();
+					if (this.outputs) this.outputs.save();
+					if (this.onRebuild) this.onRebuild();
+				}).catch((error) => log.error(error.toString()));
+			};
+
+			if (!watch && this.scanner) {
+				this.scanner.scan(match, options).then((files: string[]) => {
+					for (let filepath of files) {
+						let file = path.parse(filepath);
+						if (file.ext === '.glsl' && !file.name.endsWith('.inc')) {
+							shaders.push(filepath);
+						}
+					}
+					return compileShaders();
+				}).catch(reject);
 				return;
+			}
+
+			this.watcher = chokidar.watch(match, { ignored: ignoredFiles(options), persistent: watch });
+			this.watcher.on('add', (filepath: string) => {
+				let file = path.parse(filepath);
+				if (ready) {
+					switch (file.ext) {
+						case '.glsl':
+							if (!file.name.endsWith('.inc')) {
+								log.info('Compiling ' + file.name);
+								recompile(filepath);
+							}
+							break;
+					}
+				}
+				else {
+					switch (file.ext) {
+						case '.glsl':
+							if (!file.name.endsWith('.inc')) {
+								shaders.push(filepath);
+							}
+							break;
+					}
+				}
+			});
+			if (watch) {
+				this.watcher.on('change', (filepath: string) => {
+					let file = path.parse(filepath);
+					switch (file.ext) {
+						case '.glsl':
+							if (!file.name.endsWith('.inc')) {
+								log.info('Recompiling ' + file.name);
+								recompile(filepath);
+							}
+							break;
+					}
+				});
+			}
+			this.watcher.on('unlink', (file: string) => {
+				if (ready && compiledShaders.has(file)) {
+					log.info('Removing ' + path.basename(file));
+					compiledShaders.delete(file);
+					if (this.outputs) this.outputs.forget('shaders', file);
+					if (this.onRebuild) this.onRebuild();
+				}
+			});
+			this.watcher.on('ready', () => {
+				compileShaders().catch(reject);
 			});
 		});
 	}
 
+	/**
+	 * Compiles a shader found by a matcher and prepares it for files.json.
+	 */
+	private async compileForMatcher(file: string, options: any, recompile: boolean): Promise<CompiledShader> {
+		let parsed = path.parse(file);
+		let compiledShader = await this.compileShader(file, options, recompile);
+		if (compiledShader === null) {
+			compiledShader = new CompiledShader();
+			// mark variables as invalid, so they are loaded from previous compilation
+			compiledShader.files = null;
+			compiledShader.inputs = null;
+			compiledShader.outputs = null;
+			compiledShader.uniforms = null;
+			compiledShader.types = null;
+		}
+		if (compiledShader.files != null && compiledShader.files.length === 0) {
+			// TODO: Remove when krafix has been recompiled everywhere
+			compiledShader.files.push(parsed.name + '.' + this.type);
+		}
+		this.recordOutputs(file, compiledShader);
+		compiledShader.name = AssetConverter.createExportInfo(parsed, false, options, this.exporter.options.from).name;
+		return compiledShader;
+	}
+
+	/**
+	 * The shaders of all matchers, in watch mode including the ones added or changed since.
+	 */
+	compiledShaders(): CompiledShader[] {
+		let shaders: CompiledShader[] = [];
+		for (let compiledShaders of this.compiled) {
+			shaders = shaders.concat(Array.from(compiledShaders.values()));
+		}
+		return shaders;
+	}
+
+	private recordOutputs(source: string, compiledShader: CompiledShader): void {
+		if (!this.outputs) return;
+		if (compiledShader === null || compiledShader.files === null) {
+			// Nothing was compiled, the outputs of the previous build are still valid
+			this.outputs.keep('shaders', source);
+			return;
+		}
+		let files = compiledShader.files.length > 0 ? compiledShader.files : [path.parse(source).name + '.' + this.type];
+		this.outputs.record('shaders', source, files.map((file) => path.join(this.to, file)));
+	}
+
 	async run(watch: boolean, recompileAll: boolean): Promise<CompiledShader[]> {
 		let shaders: CompiledShader[] = [];
 		for (let matcher of this.shaderMatchers) {
 			shaders = shaders.concat(await this.watch(watch, matcher.match, matcher.options, recompileAll));
 		}
+		openCache(this.options.to).save();
 		return shaders;
 	}
 
 	compileShader(file: string, options: any, recompile: boolean): Promise<CompiledShader> {
 		return new Promise<CompiledShader>((resolve, reject) => {
-			if (!this.compiler) reject('No shader compiler found.');
+			if (!this.compiler) {
+				reject(new ToolNotFoundError('No shader compiler found.', { file: file }));
+				return;
+			}
 
 			if (this.type === 'none') {
 				resolve(new CompiledShader());
@@ -311,161 +410,205 @@ export class ShaderCompiler {
 			let to = path.join(this.to, fileinfo.name + '.' + this.type);
 			let temp = to + '.temp';
 
-			fs.stat(from, (fromErr: NodeJS.ErrnoException, fromStats: fs.Stats) => {
-				fs.stat(to, (toErr: NodeJS.ErrnoException, toStats: fs.Stats) => {
-					if (options.noprocessing) {
-						if (!toStats || toStats.mtime.getTime() < fromStats.mtime.getTime()) {
-							fs.copySync(from, to, { overwrite: true });
+			// krafix writes somewhere else for metal, the cache always records this file
+			let cached = to;
+			if (!fs.existsSync(from)) {
+				log.error('Shader compiler error: ' + from + ' does not exist.');
+				resolve(null);
+				return;
+			}
+
+			let cache = openCache(this.options.to);
+			if (options.noprocessing) {
+				let copyKey = cache.key(from, null, { noprocessing: true });
+				if (!cache.isFresh(cached, copyKey)) {
+					if (dryrun.get()) dryrun.copy(from, to);
+					else fs.copySync(from, to, { overwrite: true });
+					cache.store(cached, copyKey);
+				}
+				resolve(new CompiledShader());
+				return;
+			}
+
+			// Included files are part of the key, a missing one is recorded too so creating it compiles again
+			let includes = includedFiles(path.resolve(from)).map((include) => [include, fs.existsSync(include) ? cache.hashFile(include) : null]);
+			let key = cache.key(from, this.compiler, {
+				type: this.type,
+				platform: this.platform,
+				shaderversion: this.options.shaderversion,
+				glsl2: this.options.glsl2,
+				defines: options.defines,
+				includes: includes
+			});
+			if (!recompile && cache.isFresh(cached, key)) {
+				// Without stored results they are taken from the previous files.json
+				let stored = cache.data(cached);
+				resolve(stored !== null ? Object.assign(new CompiledShader(), stored) : null);
+				return;
+			}
+
+			if (this.type === 'metal' && this.platform !== Platform.Krom) {
+				if (!dryrun.get()) fs.ensureDirSync(path.join(this.builddir, 'Sources'));
+				let funcname = fileinfo.name;
+				funcname = funcname.replace(/-/g, '_');
+				funcname = funcname.replace(/\./g, '_');
+				funcname += '_main';
+
+				if (dryrun.get()) dryrun.write(to);
+				else fs.writeFileSync(to, '>' + funcname, 'utf8');
+
+				to = path.join(this.builddir, 'Sources', fileinfo.name + '.' + this.type);
+				temp = to;
+			}
+			let parameters = [this.type === 'hlsl' ? 'd3d9' : this.type, from, temp, this.temp, this.platform];
+			if (this.options.shaderversion) {
+				parameters.push('--version');
+				parameters.push(this.options.shaderversion);
+			}
+			else if (this.platform === Platform.Krom && os.platform() === 'linux') {
+				parameters.push('--version');
+				parameters.push('110');
+			}
+			if (this.options.glsl2) {
+				parameters.push('--glsl2');
+			}
+			if (options.defines) {
+				for (let define of options.defines) {
+					parameters.push('-D' + define);
+				}
+			}
+			if (this.platform === Platform.HTML5 || this.platform === Platform.HTML5Worker || this.platform === Platform.Android) {
+				parameters.push('--relax');
+			}
+
+			parameters[1] = path.resolve(parameters[1]);
+			parameters[2] = path.resolve(parameters[2]);
+			parameters[3] = path.resolve(parameters[3]);
+
+			if (dryrun.get()) {
+				dryrun.command(this.compiler, parameters);
+				resolve(new CompiledShader());
+				return;
+			}
+
+			let child = child_process.spawn(this.compiler, parameters);
+			let output = '';
+			let spawnError: Error = null;
+
+			child.stdout.on('data', (data: any) => {
+				log.info(data.toString());
+			});
+
+			let errorLine = '';
+			let newErrorLine = true;
+			let errorData = false;
+
+			let compiledShader = new CompiledShader();
+
+			function parseData(data: string) {
+				data = data.replace(':\\', '#\\'); // Filter out absolute paths on Windows
+				let parts = data.split(':');
+				if (parts.length >= 3) {
+					if (parts[0] === 'uniform') {
+						compiledShader.uniforms.push({name: parts[1], type: parts[2]});
+					}
+					else if (parts[0] === 'input') {
+						compiledShader.inputs.push({name: parts[1], type: parts[2]});
+					}
+					else if (parts[0] === 'output') {
+						compiledShader.outputs.push({name: parts[1], type: parts[2]});
+					}
+					else if (parts[0] === 'type') {
+						let type = data.substring(data.indexOf(':') + 1);
+						let name = type.substring(0, type.indexOf(':'));
+						let typedata = type.substring(type.indexOf(':') + 2);
+						typedata = typedata.substr(0, typedata.length - 1);
+						let members = typedata.split(',');
+						let memberdecls = [];
+						for (let member of members) {
+							let memberparts = member.split(':');
+							memberdecls.push({type: memberparts[1], name: memberparts[0]});
 						}
-						resolve(new CompiledShader());
-						return;
+						compiledShader.types.push({name: name, members: memberdecls});
+					}
+				}
+				else if (parts.length >= 2) {
+					if (parts[0] === 'file') {
+						const parsed = path.parse(parts[1].replace('#\\', ':\\'));
+						let name = parsed.name;
+						if (parsed.ext !== '.temp') name += parsed.ext;
+						compiledShader.files.push(name);
 					}
-					fs.stat(this.compiler, (compErr: NodeJS.ErrnoException, compStats: fs.Stats) => {
-						if (!recompile && (fromErr || (!toErr && toStats.mtime.getTime() > fromStats.mtime.getTime() && toStats.mtime.getTime() > compStats.mtime.getTime()))) {
-							if (fromErr) log.error('Shader compiler error: ' + fromErr);
-							resolve(null);
+				}
+			}
+
+			child.stderr.on('data', (data: any) => {
+				let str: string = data.toString();
+				for (let char of str) {
+					if (char === '\n') {
+						if (errorData) {
+							parseData(errorLine.trim());
 						}
 						else {
-							if (this.type === 'metal' && this.platform !== Platform.Krom) {
-								fs.ensureDirSync(path.join(this.builddir, 'Sources'));
-								let funcname = fileinfo.name;
-								funcname = funcname.replace(/-/g, '_');
-								funcname = funcname.replace(/\./g, '_');
-								funcname += '_main';
+							output += errorLine.trim() + '\n';
+							log.error(errorLine.trim());
+						}
+						errorLine = '';
+						newErrorLine = true;
+						errorData = false;
+					}
+					else if (newErrorLine && char === '#') {
+						errorData = true;
+						newErrorLine = false;
+					}
+					else {
+						errorLine += char;
+						newErrorLine = false;
+					}
+				}
+			});
 
-								fs.writeFileSync(to, '>' + funcname, 'utf8');
+			child.on('error', (error: Error) => {
+				spawnError = error;
+			});
 
-								to = path.join(this.builddir, 'Sources', fileinfo.name + '.' + this.type);
-								temp = to;
-							}
-							let parameters = [this.type === 'hlsl' ? 'd3d9' : this.type, from, temp, this.temp, this.platform];
-							if (this.options.shaderversion) {
-								parameters.push('--version');
-								parameters.push(this.options.shaderversion);
-							}
-							else if (this.platform === Platform.Krom && os.platform() === 'linux') {
-								parameters.push('--version');
-								parameters.push('110');
-							}
-							if (this.options.glsl2) {
-								parameters.push('--glsl2');
-							}
-							if (options.defines) {
-								for (let define of options.defines) {
-									parameters.push('-D' + define);
-								}
-							}
-							if (this.platform === Platform.HTML5 || this.platform === Platform.HTML5Worker || this.platform === Platform.Android) {
-								parameters.push('--relax');
-							}
+			child.on('close', (code: number) => {
+				if (errorLine.trim().length > 0) {
+					if (errorData) {
+						parseData(errorLine.trim());
+					}
+					else {
+						output += errorLine.trim() + '\n';
+						log.error(errorLine.trim());
+					}
+				}
 
-							parameters[1] = path.resolve(parameters[1]);
-							parameters[2] = path.resolve(parameters[2]);
-							parameters[3] = path.resolve(parameters[3]);
-
-							let child = child_process.spawn(this.compiler, parameters);
-
-							child.stdout.on('data', (data: any) => {
-								log.info(data.toString());
-							});
-
-							let errorLine = '';
-							let newErrorLine = true;
-							let errorData = false;
-
-							let compiledShader = new CompiledShader();
-
-							function parseData(data: string) {
-								data = data.replace(':\\', '#\\'); // Filter out absolute paths on Windows
-								let parts = data.split(':');
-								if (parts.length >= 3) {
-									if (parts[0] === 'uniform') {
-										compiledShader.uniforms.push({name: parts[1], type: parts[2]});
-									}
-									else if (parts[0] === 'input') {
-										compiledShader.inputs.push({name: parts[1], type: parts[2]});
-									}
-									else if (parts[0] === 'output') {
-										compiledShader.outputs.push({name: parts[1], type: parts[2]});
-									}
-									else if (parts[0] === 'type') {
-										let type = data.substring(data.indexOf(':') + 1);
-										let name = type.substring(0, type.indexOf(':'));
-										let typedata = type.substring(type.indexOf(':') + 2);
-										typedata = typedata.substr(0, typedata.length - 1);
-										let members = typedata.split(',');
-										let memberdecls = [];
-										for (let member of members) {
-											let memberparts = member.split(':');
-											memberdecls.push({type: memberparts[1], name: memberparts[0]});
-										}
-										compiledShader.types.push({name: name, members: memberdecls});
-									}
-								}
-								else if (parts.length >= 2) {
-									if (parts[0] === 'file') {
-										const parsed = path.parse(parts[1].replace('#\\', ':\\'));
-										let name = parsed.name;
-										if (parsed.ext !== '.temp') name += parsed.ext;
-										compiledShader.files.push(name);
-									}
-								}
-							}
+				if (spawnError) {
+					reject(new ToolNotFoundError('Could not start ' + this.compiler + ': ' + spawnError.message, { file: from, cause: spawnError }));
+					return;
+				}
 
-							child.stderr.on('data', (data: any) => {
-								let str: string = data.toString();
-								for (let char of str) {
-									if (char === '\n') {
-										if (errorData) {
-											parseData(errorLine.trim());
-										}
-										else {
-											log.error(errorLine.trim());
-										}
-										errorLine = '';
-										newErrorLine = true;
-										errorData = false;
-									}
-									else if (newErrorLine && char === '#') {
-										errorData = true;
-										newErrorLine = false;
-									}
-									else {
-										errorLine += char;
-										newErrorLine = false;
-									}
-								}
-							});
-
-							child.on('close', (code: number) => {
-								if (errorLine.trim().length > 0) {
-									if (errorData) {
-										parseData(errorLine.trim());
-									}
-									else {
-										log.error(errorLine.trim());
-									}
-								}
-
-								if (code === 0) {
-									if (this.type !== 'metal' || this.platform === Platform.Krom) {
-										if (compiledShader.files === null || compiledShader.files.length === 0) {
-											fs.renameSync(temp, to);
-										}
-										for (let file of compiledShader.files) {
-											fs.renameSync(path.join(this.to, file + '.temp'), path.join(this.to, file));
-										}
-									}
-									resolve(compiledShader);
-								}
-								else {
-									process.exitCode = 1;
-									reject('Shader compiler error.');
-								}
-							});
+				if (code === 0) {
+					if (this.type !== 'metal' || this.platform === Platform.Krom) {
+						if (compiledShader.files === null || compiledShader.files.length === 0) {
+							fs.renameSync(temp, to);
+						}
+						for (let file of compiledShader.files) {
+							fs.renameSync(path.join(this.to, file + '.temp'), path.join(this.to, file));
 						}
+					}
+					cache.store(cached, key, {
+						files: compiledShader.files,
+						inputs: compiledShader.inputs,
+						outputs: compiledShader.outputs,
+						uniforms: compiledShader.uniforms,
+						types: compiledShader.types
 					});
-				});
+					resolve(compiledShader);
+				}
+				else {
+					reject(new ShaderCompileError('Shader compiler error.', { file: from, output: output }));
+				}
 			});
 		});
 	}
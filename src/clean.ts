@@ -0,0 +1,103 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as dryrun from './DryRun';
+import * as log from './log';
+import {Options} from './Options';
+import {targetSysdir} from './Platform';
+
+function remove(file: string) {
+	if (!fs.existsSync(file)) return;
+	if (dryrun.get()) {
+		dryrun.remove(file);
+		return;
+	}
+	log.info('Removing ' + file);
+	fs.removeSync(file);
+}
+
+// The project name is needed for the names of the IDE project files
+function readProjectName(hxml: string): string {
+	if (!fs.existsSync(hxml)) return null;
+	for (let line of fs.readFileSync(hxml, 'utf8').split('\n')) {
+		line = line.trim();
+		if (line.startsWith('-D kha_project_name=')) {
+			return line.substr('-D kha_project_name='.length);
+		}
+	}
+	return null;
+}
+
+function cleanCache(to: string, sysdir: string) {
+	let cachePath = path.join(to, 'temp', 'cache.json');
+	if (!fs.existsSync(cachePath)) return;
+	let cache: any;
+	try {
+		cache = JSON.parse(fs.readFileSync(cachePath, 'utf8'));
+	}
+	catch (error) {
+		// A broken cache is of no use to any target
+		log.error('Could not read ' + cachePath + ', removing it.');
+		remove(cachePath);
+		return;
+	}
+	if (!cache.entries) return;
+	let prefixes = [path.resolve(to, sysdir) + path.sep, path.resolve(to, sysdir + '-resources') + path.sep];
+	for (let key in cache.entries) {
+		if (prefixes.some((prefix) => path.resolve(key).startsWith(prefix))) {
+			delete cache.entries[key];
+		}
+	}
+	if (dryrun.get()) dryrun.write(cachePath);
+	else fs.writeFileSync(cachePath, JSON.stringify(cache), { encoding: 'utf8'});
+}
+
+function cleanTarget(to: string, sysdir: string) {
+	let hxml = path.join(to, 'project-' + sysdir + '.hxml');
+	let name = readProjectName(hxml);
+	if (name !== null) {
+		let safeName = name.replace(/[\\\/]/g, '_');
+		remove(path.join(to, safeName + '-' + sysdir + '-intellij'));
+		remove(path.join(to, safeName + '-' + sysdir + '.hxproj'));
+	}
+	remove(hxml);
+	remove(path.join(to, sysdir));
+	remove(path.join(to, sysdir + '-resources'));
+	remove(path.join(to, sysdir + '-build'));
+	cleanCache(to, sysdir);
+}
+
+// Every target leaves a -resources directory and usually a project-<target>.hxml
+function findTargets(to: string): string[] {
+	let targets: string[] = [];
+	for (let file of fs.readdirSync(to)) {
+		let sysdir: string = null;
+		if (file.startsWith('project-') && file.endsWith('.hxml')) {
+			sysdir = file.substring('project-'.length, file.length - '.hxml'.length);
+		}
+		else if (file.endsWith('-resources') && fs.statSync(path.join(to, file)).isDirectory()) {
+			sysdir = file.substr(0, file.length - '-resources'.length);
+		}
+		if (sysdir !== null && targets.indexOf(sysdir) < 0) {
+			targets.push(sysdir);
+		}
+	}
+	return targets;
+}
+
+export function run(options: Options, all: boolean) {
+	dryrun.init(options);
+	if (!fs.existsSync(options.to)) return;
+
+	let targets = all ? findTargets(options.to) : options.target.split(',').map(targetSysdir).filter((target) => target !== '');
+	for (let target of targets) {
+		cleanTarget(options.to, target);
+	}
+
+	if (all) {
+		remove(path.join(options.to, 'temp'));
+		remove(path.join(options.to, 'korefile.js'));
+		if (!dryrun.get() && fs.readdirSync(options.to).length === 0) {
+			remove(options.to);
+		}
+	}
+}
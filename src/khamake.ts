@@ -2,250 +2,35 @@
 // This is where options are processed:
 // e.g. '-t html5 --server'
 
-import * as os from 'os';
-import * as path from 'path';
-import {GraphicsApi} from './GraphicsApi';
-import {AudioApi} from './AudioApi';
-import {VrApi} from './VrApi';
-import {RayTraceApi} from './RayTraceApi';
-import {Options} from './Options';
+import {ErrorCode, exitCodeOf, KhamakeError} from './KhamakeError';
+import {readConfigFile, readEnvironment, userConfigPath, projectConfigPath} from './Config';
+import {Options, OptionDefinition, convertOption, defaultOptions, findOption, optionNames} from './Options';
 import {Platform} from './Platform';
-import {VisualStudioVersion} from './VisualStudioVersion';
+import {Server, serverDirectory} from './Server';
+import {suggest} from './suggest';
 
-let defaultTarget: string;
-if (os.platform() === 'linux') {
-	defaultTarget = Platform.Linux;
-}
-else if (os.platform() === 'win32') {
-	defaultTarget = Platform.Windows;
-}
-else {
-	defaultTarget = Platform.OSX;
-}
-
-let options: Array<any> = [
-	{
-		full: 'from',
-		value: true,
-		description: 'Location of your project',
-		default: '.'
-	},
-	{
-		full: 'to',
-		value: true,
-		description: 'Build location',
-		default: 'build'
-	},
-	{
-		full: 'projectfile',
-		value: true,
-		description: 'Name of your project file, defaults to "khafile.js"',
-		default: 'khafile.js'
-	},
-	{
-		full: 'target',
-		short: 't',
-		value: true,
-		description: 'Target platform',
-		default: defaultTarget
-	},
-	{
-		full: 'vr',
-		value: true,
-		description: 'Target VR device',
-		default: VrApi.None
-	},
-	{
-		full: 'raytrace',
-		value: true,
-		description: 'Target raytracing api',
-		default: RayTraceApi.None
-	},
-	{
-		full: 'main',
-		value: true,
-		description: 'Entrypoint for the haxe code (-main argument), defaults to "Main".',
-		default: 'Main'
-	},
-	{
-		full: 'intermediate',
-		description: 'Intermediate location for object files.',
-		value: true,
-		default: '',
-		hidden: true
-	},
-	{
-		full: 'graphics',
-		short: 'g',
-		description: 'Graphics api to use. Possible parameters are direct3d9, direct3d11, direct3d12, metal, vulkan and opengl.',
-		value: true,
-		default: GraphicsApi.Default
-	},
-	{
-		full: 'audio',
-		short: 'a',
-		description: 'Audio api to use. Possible parameters are directsound and wasapi.',
-		value: true,
-		default: AudioApi.Default
-	},
-	{
-		full: 'visualstudio',
-		short: 'v',
-		description: 'Version of Visual Studio to use. Possible parameters are vs2010, vs2012, vs2013 and vs2015.',
-		value: true,
-		default: VisualStudioVersion.VS2017
-	},
-	{
-		full: 'kha',
-		short: 'k',
-		description: 'Location of Kha directory',
-		value: true,
-		default: ''
-	},
-	{
-		full: 'haxe',
-		description: 'Location of Haxe directory',
-		value: true,
-		default: ''
-	},
-	{
-		full: 'nohaxe',
-		description: 'Do not compile Haxe sources',
-		value: false,
-	},
-	{
-		full: 'ffmpeg',
-		description: 'Location of ffmpeg executable',
-		value: true,
-		default: ''
-	},
-	{
-		full: 'ogg',
-		description: 'Commandline for running the ogg encoder',
-		value: true,
-		default: ''
-	},
-	{
-		full: 'mp3',
-		description: 'Commandline for running the mp3 encoder',
-		value: true,
-		default: ''
-	},
-	{
-		full: 'aac',
-		description: 'Commandline for running the ffmpeg executable',
-		value: true,
-		default: ''
-	},
-	{
-		full: 'krafix',
-		description: 'Location of krafix shader compiler',
-		value: true,
-		default: ''
-	},
-	{
-		full: 'noshaders',
-		description: 'Do not compile shaders',
-		value: false
-	},
-	{
-		full: 'noproject',
-		description: 'Only source files. Don\'t generate project files.',
-		value: false,
-	},
-	{
-		full: 'onlydata',
-		description: 'Only assets/data. Don\'t generate project files.',
-		value: false,
-	},
-	{
-		full: 'embedflashassets',
-		description: 'Embed assets in swf for flash target',
-		value: false
-	},
-	{
-		full: 'compile',
-		description: 'Compile executable',
-		value: false
-	},
-	{
-		full: 'run',
-		description: 'Run executable',
-		value: false
-	},
-	{
-		full: 'init',
-		description: 'Init a Kha project inside the current directory',
-		value: false
-	},
-	{
-		full: 'name',
-		description: 'Project name to use when initializing a project',
-		value: true,
-		default: 'Project'
-	},
-	{
-		full: 'server',
-		description: 'Run local http server for html5 target',
-		value: false
-	},
-	{
-		full: 'port',
-		description: 'Running port for the server',
-		value: true,
-		default: 8080
-	},
-	{
-		full: 'debug',
-		description: 'Compile in debug mode for native targets.',
-		value: false
-	},
-	{
-		full: 'silent',
-		description: 'Silent mode.',
-		value: false
-	},
-	{
-		full: 'watch',
-		short: 'w',
-		description: 'Watch files and recompile on change.',
-		value: false
-	},
-	{
-		full: 'glsl2',
-		description: 'Use experimental SPIRV-Cross glsl mode.',
-		value: false
-	},
-	{
-		full: 'shaderversion',
-		description: 'Set target shader version manually.',
-		value: true,
-		default: null
-	},
-	{
-		full: 'parallelAssetConversion',
-		description: 'Experimental - Spawn multiple processes during asset and shader conversion. Possible values:\n  0: disabled (default value)\n -1: choose number of processes automatically\n  N: specify number of processes manually',
-		value: true,
-		default: 0
-	},
-	{
-		full: 'haxe3',
-		description: 'Use the battle tested Haxe 3 compiler instead of the cutting edge not really released yet Haxe 4 compiler',
-		value: false
-	}
-];
-
-let parsedOptions: any = new Options();
+let parsedOptions: Options = defaultOptions();
 
 function printHelp() {
 	console.log('khamake options:\n');
-	for (let option of options) {
+	for (let name of optionNames()) {
+		let option = findOption(name);
 		if (option.hidden) continue;
-		if (option.short) console.log('-' + option.short + ' ' + '--' + option.full);
-		else console.log('--' + option.full);
+		let value = option.kind === 'flag' ? '' : option.kind === 'list' ? ' <string>' : ' <' + option.kind + '>';
+		if (option.short) console.log('-' + option.short + ' ' + '--' + name + value);
+		else console.log('--' + name + value);
 		console.log(option.description);
+		if (option.values) console.log('Possible values are ' + option.values.join(', ') + '.');
 		console.log();
 	}
+	console.log('Options can also be given as --option=value.');
+	console.log('Defaults for all options can also be set in khamake.json in the project directory,');
+	console.log('in ' + userConfigPath() + ' or using KHAMAKE_* environment variables (e.g. KHAMAKE_FFMPEG).');
+}
+
+function fail(message: string): void {
+	console.error('Error: ' + message);
+	process.exit(exitCodeOf(ErrorCode.InvalidOption));
 }
 
 function isTarget(target: string) {
@@ -253,12 +38,31 @@ function isTarget(target: string) {
 	return true;
 }
 
-for (let option of options) {
-	if (option.value) {
-		parsedOptions[option.full] = option.default;
+function findShortOption(short: string): string {
+	for (let name of optionNames()) {
+		if (findOption(name).short === short) return name;
+	}
+	return null;
+}
+
+let cliOptions: any = {};
+
+function setCliOption(name: string, value: any) {
+	try {
+		value = convertOption(name, value, false);
+	}
+	catch (error) {
+		fail(error.message);
+	}
+	// Several targets can be given as -t html5,krom or -t html5 -t krom
+	if (name === 'target' && cliOptions.target !== undefined) {
+		cliOptions.target += ',' + value;
+	}
+	else if (findOption(name).kind === 'list' && cliOptions[name] !== undefined) {
+		cliOptions[name] = cliOptions[name].concat(value);
 	}
 	else {
-		parsedOptions[option.full] = false;
+		cliOptions[name] = value;
 	}
 }
 
@@ -266,47 +70,60 @@ let args = process.argv;
 for (let i = 2; i < args.length; ++i) {
 	let arg = args[i];
 
-	if (arg[0] === '-') {
-		if (arg[1] === '-') {
-			if (arg.substr(2) === 'help') {
-				printHelp();
-				process.exit(0);
-			}
-			for (let option of options) {
-				if (arg.substr(2) === option.full) {
-					if (option.value) {
-						++i;
-						parsedOptions[option.full] = args[i];
-					}
-					else {
-						parsedOptions[option.full] = true;
-					}
-				}
-			}
+	if (arg[0] === '-' && arg.length > 1) {
+		let long = arg[1] === '-';
+		let key = long ? arg.substr(2) : arg.substr(1);
+		let value: string = undefined;
+		let equals = key.indexOf('=');
+		if (equals >= 0) {
+			value = key.substr(equals + 1);
+			key = key.substr(0, equals);
+		}
+
+		if ((long && key === 'help') || (!long && key === 'h')) {
+			printHelp();
+			process.exit(0);
+		}
+
+		let name = long ? key : findShortOption(key);
+		let option: OptionDefinition = name === null ? null : findOption(name);
+		if (option === null) {
+			let suggestion = long ? suggest(key, optionNames()) : null;
+			fail('Unknown option ' + (long ? '--' : '-') + key + '.' + (suggestion ? ' Did you mean --' + suggestion + '?' : '') + ' Use --help to list all options.');
+		}
+
+		if (option.kind === 'flag') {
+			setCliOption(name, value === undefined ? true : value);
 		}
 		else {
-			if (arg[1] === 'h') {
-				printHelp();
-				process.exit(0);
-			}
-			for (let option of options) {
-				if (option.short && arg[1] === option.short) {
-					if (option.value) {
-						++i;
-						parsedOptions[option.full] = args[i];
-					}
-					else {
-						parsedOptions[option.full] = true;
-					}
-				}
+			if (value === undefined) {
+				if (i + 1 >= args.length) fail('Option ' + arg + ' requires a value.');
+				value = args[++i];
 			}
+			setCliOption(name, value);
 		}
 	}
 	else {
-		if (isTarget(arg)) parsedOptions.target = arg.toLowerCase();
+		if (isTarget(arg)) setCliOption('target', arg.toLowerCase());
 	}
 }
 
+// Precedence is command line > environment > project config > user config > defaults
+let optionSources: any[] = [];
+try {
+	let environmentOptions = readEnvironment(process.env);
+	let from = cliOptions.from !== undefined ? cliOptions.from : environmentOptions.from !== undefined ? environmentOptions.from : parsedOptions.from;
+	optionSources = [readConfigFile(userConfigPath()), readConfigFile(projectConfigPath(from)), environmentOptions];
+}
+catch (error) {
+	fail(error.message);
+}
+optionSources.push(cliOptions);
+for (let source of optionSources) {
+	Object.assign(parsedOptions, source);
+}
+let targetGiven = optionSources.some((source) => source.target !== undefined);
+
 if (parsedOptions.run) {
 	parsedOptions.compile = true;
 }
@@ -330,36 +147,67 @@ async function runKhamake() {
 				process.stderr.write(text);
 			}
 		};
-		await require('./main.js').run(parsedOptions, { info: logInfo, error: logError }, (name: string) => { });
+		if (parsedOptions['print-project']) {
+			// stdout only gets the JSON so tools can parse it
+			let description = await require('./main.js').describeProject(parsedOptions, { info: logError, error: logError });
+			console.log(JSON.stringify(description, null, '\t'));
+			return;
+		}
+		if (parsedOptions.libs) {
+			await require('./main.js').listLibraries(parsedOptions, { info: logInfo, error: logError });
+			return;
+		}
+		let results = await require('./main.js').buildAll(parsedOptions, { info: logInfo, error: logError });
+		for (let result of results) {
+			// Forward the exit code of what --run started
+			if (result.exitCode) process.exitCode = result.exitCode;
+		}
 	}
 	catch (error) {
+		exitWithError(error);
+	}
+}
+
+function exitWithError(error: any): void {
+	if (error instanceof KhamakeError) {
+		console.error(error.code + ': ' + error.message + (error.file ? ' (' + error.file + ')' : ''));
+		process.exit(error.exitCode);
+	}
+	else {
 		console.log(error);
 		process.exit(1);
 	}
 }
 
+function runServer() {
+	// Without a target the server is for html5 like it always was
+	if (!targetGiven) parsedOptions.target = Platform.HTML5;
+	let server = new Server(serverDirectory(parsedOptions), parsedOptions.port, parsedOptions.watch);
+	server.start();
+	if (parsedOptions.watch) {
+		// Build and keep rebuilding, every successful rebuild reloads the browser
+		require('./main.js').onRebuild(() => {
+			server.reload();
+		});
+		runKhamake();
+	}
+}
+
 if (parsedOptions.init) {
 	console.log('Initializing Kha project.\n');
 	require('./init').run(parsedOptions.name, parsedOptions.from, parsedOptions.projectfile);
 	console.log('If you want to use the git version of Kha, execute "git init" and "git submodule add https://github.com/Kode/Kha.git".');
 }
+else if (parsedOptions.clean || parsedOptions['clean-all']) {
+	try {
+		require('./clean').run(parsedOptions, parsedOptions['clean-all']);
+	}
+	catch (error) {
+		exitWithError(error);
+	}
+}
 else if (parsedOptions.server) {
-	console.log('Running server on ' + parsedOptions.port);
-	let nstatic = require('node-static');
-	let fileServer = new nstatic.Server(path.join(parsedOptions.from, 'build', 'html5'), { cache: 0 });
-	let server = require('http').createServer(function (request: any, response: any) {
-		request.addListener('end', function () {
-			fileServer.serve(request, response);
-		}).resume();
-	});
-	server.on('error', function (e: any) {
-		if (e.code === 'EADDRINUSE') {
-			console.log('Error: Port ' + parsedOptions.port + ' is already in use.');
-			console.log('Please close the competing program (maybe another instance of khamake?)');
-			console.log('or switch to a different port using the --port argument.');
-		}
-	});
-	server.listen(parsedOptions.port);
+	runServer();
 }
 else {
 	runKhamake();
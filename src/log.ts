@@ -16,6 +16,8 @@ let myError = function (text: string, newline: boolean) {
 	}
 };
 
+let recorder: {warnings: string[], errors: string[]} = null;
+
 export function set(log: {info: (text: string, newline: boolean) => void, error: (text: string, newline: boolean) => void}) {
 	myInfo = log.info;
 	myError = log.error;
@@ -26,10 +28,24 @@ export function silent() {
 	myError = function () {};
 }
 
+// Collects warnings and errors in addition to printing them, e.g. for build reports
+export function record(target: {warnings: string[], errors: string[]}) {
+	recorder = target;
+}
+
 export function info(text: string, newline: boolean = true) {
 	myInfo(text, newline);
 }
 
+export function warn(text: string) {
+	if (recorder) recorder.warnings.push(text);
+	myInfo('Warning: ' + text, true);
+}
+
 export function error(text: string, newline: boolean = true) {
+	if (recorder && text) {
+		let message = text.toString().trim();
+		if (message !== '') recorder.errors.push(message);
+	}
 	myError(text, newline);
 }
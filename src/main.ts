@@ -4,16 +4,27 @@ import * as os from 'os';
 import * as path from 'path';
 
 import {sys} from './exec';
+import {suggest} from './suggest';
+import * as dryrun from './DryRun';
 import * as korepath from './korepath';
 import * as log from './log';
 import {Options} from './Options';
-import {Platform} from './Platform';
-import {Project, Target, Library} from './Project';
-import {loadProject, Callbacks} from './ProjectFile';
+import {Platform, targetSysdir} from './Platform';
+import {mergeOptions, Project, ResolvedLibrary, Target, Library} from './Project';
+import {findProjectFile, loadProject, setEvaluation} from './ProjectFile';
+import {excludeParameters, isExcludedDirectory} from './Exclude';
+import {createHookContext, HookContext, runHook, runHookSafely} from './Hooks';
 import {VisualStudioVersion} from './VisualStudioVersion';
-import {AssetConverter} from './AssetConverter';
+import {Asset, AssetConverter} from './AssetConverter';
+import {FileScanner} from './FileScanner';
+import {OutputManifest} from './OutputManifest';
+import {AssetConversionError, BuildError, ErrorCode, HaxeCompileError, InvalidOptionError, KhamakeError, NativeBuildError, ProjectLoadError, ShaderCompileError, ToolNotFoundError} from './KhamakeError';
+import {writeBuildReport, writeBuildReports} from './BuildReport';
+import {updateLockfile} from './Lockfile';
+import {BuildResult} from './BuildResult';
 import {HaxeCompiler} from './HaxeCompiler';
 import {ShaderCompiler, CompiledShader} from './ShaderCompiler';
+import {runTarget} from './Runner';
 import {KhaExporter} from './Exporters/KhaExporter';
 import {AndroidExporter} from './Exporters/AndroidExporter';
 import {DebugHtml5Exporter} from './Exporters/DebugHtml5Exporter';
@@ -34,6 +45,14 @@ import {writeHaxeProject} from './HaxeProject';
 let lastAssetConverter: AssetConverter;
 let lastShaderCompiler: ShaderCompiler;
 let lastHaxeCompiler: HaxeCompiler;
+let rebuildListeners: (() => void)[] = [];
+
+function notifyRebuild(hooks: HookContext, phase: string): void {
+	for (let listener of rebuildListeners) {
+		listener();
+	}
+	runHookSafely('onWatchRebuild', Object.assign({}, hooks, { phase: phase }));
+}
 
 function fixName(name: string): string {
 	name = name.replace(/[-@\ \.\/\\]/g, '_');
@@ -48,6 +67,10 @@ function safeName(name: string): string {
 	return name.replace(/[\\\/]/g, '_');
 }
 
+function finishPhase(result: BuildResult, name: string, start: number): void {
+	result.phases.push({name: name, duration: Date.now() - start});
+}
+
 function createKorefile(name: string, exporter: KhaExporter, options: any, targetOptions: any, libraries: Library[], cdefines: string[], stackSize: number, korehl: boolean): string {
 	let out = '';
 	out += 'let fs = require(\'fs\');\n';
@@ -108,36 +131,59 @@ function createKorefile(name: string, exporter: KhaExporter, options: any, targe
 	return out;
 }
 
+function createHaxeOptions(name: string, options: Options, exporter: KhaExporter, targetOptions: any, defines: string[]): any {
+	let haxeOptions = exporter.haxeOptions(name, targetOptions, defines);
+	haxeOptions.defines.push('kha');
+	haxeOptions.defines.push('kha_version=1810');
+	haxeOptions.defines.push('kha_project_name=' + haxeOptions.name);
+	haxeOptions.safeName = safeName(haxeOptions.name);
+
+	if (options.debug && haxeOptions.parameters.indexOf('-debug') < 0) {
+		haxeOptions.parameters.push('-debug');
+	}
+	return haxeOptions;
+}
+
 async function exportProjectFiles(name: string, resourceDir: string, options: Options, exporter: KhaExporter, kore: boolean, korehl: boolean,
-	libraries: Library[], targetOptions: any, defines: string[], cdefines: string[], stackSize: number): Promise<string> {
+	libraries: Library[], targetOptions: any, defines: string[], cdefines: string[], stackSize: number, result: BuildResult, hooks: HookContext): Promise<void> {
 	if (options.haxe !== '') {
-		let haxeOptions = exporter.haxeOptions(name, targetOptions, defines);
-		haxeOptions.defines.push('kha');
-		haxeOptions.defines.push('kha_version=1810');
-		haxeOptions.defines.push('kha_project_name=' + haxeOptions.name);
-		haxeOptions.safeName = safeName(haxeOptions.name);
-
-		if (options.debug && haxeOptions.parameters.indexOf('-debug') < 0) {
-			haxeOptions.parameters.push('-debug');
+		let haxeOptions = createHaxeOptions(name, options, exporter, targetOptions, defines);
+		hooks.haxeOptions = haxeOptions;
+
+		if (dryrun.get()) {
+			dryrun.write(path.join(options.to, 'project-' + exporter.sysdir() + '.hxml'));
+			if (!options.noproject) {
+				dryrun.write(path.join(options.to, haxeOptions.safeName + '-' + exporter.sysdir() + '.hxproj'));
+				dryrun.write(path.join(options.to, haxeOptions.safeName + '-' + exporter.sysdir() + '-intellij'));
+			}
 		}
-
-		writeHaxeProject(options.to, !options.noproject, haxeOptions);
+		else {
+			writeHaxeProject(options.to, !options.noproject, haxeOptions);
+		}
+		result.hxml = path.join(options.to, 'project-' + exporter.sysdir() + '.hxml');
+		result.haxeOutput = path.join(options.to, haxeOptions.realto ? haxeOptions.realto : haxeOptions.to);
 
 		if (!options.nohaxe) {
 			let compiler = new HaxeCompiler(options.to, haxeOptions.to, haxeOptions.realto, resourceDir, options.haxe, 'project-' + exporter.sysdir() + '.hxml', haxeOptions.sources, exporter.sysdir());
+			compiler.onRebuild = () => notifyRebuild(hooks, 'haxe');
 			lastHaxeCompiler = compiler;
+			let haxeStart = Date.now();
 			try {
 				await compiler.run(options.watch);
 			}
 			catch (error) {
-				return Promise.reject(error);
+				if (error instanceof KhamakeError) throw error;
+				throw new HaxeCompileError('Haxe compilation failed.', { cause: error });
 			}
+			finishPhase(result, 'haxe', haxeStart);
 		}
-		for (let callback of Callbacks.postHaxeCompilation) {
-			callback();
-		}
+		await runHook('postHaxeCompilation', hooks);
 
+		await runHook('preExport', hooks);
+		let exportStart = Date.now();
 		await exporter.export(name, targetOptions, haxeOptions);
+		finishPhase(result, 'export', exportStart);
+		await runHook('postExport', hooks);
 	}
 
 	let buildDir = path.join(options.to, exporter.sysdir() + '-build');
@@ -145,16 +191,17 @@ async function exportProjectFiles(name: string, resourceDir: string, options: Op
 	if (options.haxe !== '' && kore && !options.noproject) {
 		// If target is a Kore project, generate additional project folders here.
 		// generate the korefile.js
-		fs.copySync(path.join(__dirname, '..', 'Data', 'build-korefile.js'), path.join(buildDir, 'korefile.js'), { overwrite: true });
-		fs.writeFileSync(path.join(options.to, 'korefile.js'), createKorefile(name, exporter, options, targetOptions, libraries, cdefines, stackSize, false));
+		copyOutput(path.join(__dirname, '..', 'Data', 'build-korefile.js'), path.join(buildDir, 'korefile.js'));
+		writeOutput(path.join(options.to, 'korefile.js'), createKorefile(name, exporter, options, targetOptions, libraries, cdefines, stackSize, false));
+		result.korefile = path.join(options.to, 'korefile.js');
 
 		// Similar to khamake.js -> main.js -> run(...)
 		// We now do koremake.js -> main.js -> run(...)
 		// This will create additional project folders for the target,
 		// e.g. 'build/android-native-build'
+		let nativeStart = Date.now();
 		try {
-			let name = await require(path.join(korepath.get(), 'out', 'main.js')).run(
-			{
+			let name = await runKoremake({
 				from: options.from,
 				to: buildDir,
 				korefile: 'build/korefile.js',
@@ -165,33 +212,31 @@ async function exportProjectFiles(name: string, resourceDir: string, options: Op
 				raytrace: options.raytrace,
 				visualstudio: options.visualstudio,
 				compile: options.compile,
-				run: options.run,
+				run: false, // --run is handled by khamake, see Runner.ts
 				debug: options.debug,
 				noshaders: true
-			},
-			{
-				info: log.info,
-				error: log.error
 			});
-			for (let callback of Callbacks.postCppCompilation) {
-				callback();
-			}
+			await runHook('postCppCompilation', hooks);
+			if (name !== null) result.name = name;
+			result.nativeProject = buildDir;
+			result.executable = koreExecutable(koreplatform(options.target), options, result.name, result.outputDirectory, buildDir);
+			finishPhase(result, 'native', nativeStart);
 			log.info('Done.');
-			return name;
 		}
 		catch (error) {
 			log.error(error);
-			return '';
+			throw new NativeBuildError('Creating the native project failed.', { file: path.join(options.to, 'korefile.js'), cause: error });
 		}
 	}
 	else if (options.haxe !== '' && korehl && !options.noproject) {
-		fs.copySync(path.join(__dirname, '..', 'Data', 'hl', 'kore_sources.c'), path.join(buildDir, 'kore_sources.c'), { overwrite: true });
-		fs.copySync(path.join(__dirname, '..', 'Data', 'hl', 'korefile.js'), path.join(buildDir, 'korefile.js'), { overwrite: true });
-		fs.writeFileSync(path.join(options.to, 'korefile.js'), createKorefile(name, exporter, options, targetOptions, libraries, cdefines, stackSize, korehl));
+		copyOutput(path.join(__dirname, '..', 'Data', 'hl', 'kore_sources.c'), path.join(buildDir, 'kore_sources.c'));
+		copyOutput(path.join(__dirname, '..', 'Data', 'hl', 'korefile.js'), path.join(buildDir, 'korefile.js'));
+		writeOutput(path.join(options.to, 'korefile.js'), createKorefile(name, exporter, options, targetOptions, libraries, cdefines, stackSize, korehl));
+		result.korefile = path.join(options.to, 'korefile.js');
 
+		let nativeStart = Date.now();
 		try {
-			let name = await require(path.join(korepath.get(), 'out', 'main.js')).run(
-			{
+			let name = await runKoremake({
 				from: options.from,
 				to: buildDir,
 				korefile: 'build/korefile.js',
@@ -201,43 +246,276 @@ async function exportProjectFiles(name: string, resourceDir: string, options: Op
 				raytrace: options.raytrace,
 				visualstudio: options.visualstudio,
 				compile: options.compile,
-				run: options.run,
+				run: false,
 				debug: options.debug,
 				noshaders: true
-			},
-			{
-				info: log.info,
-				error: log.error
 			});
+			if (name !== null) result.name = name;
+			result.nativeProject = buildDir;
+			result.executable = koreExecutable(koreplatform(options.target), options, result.name, result.outputDirectory, buildDir);
+			finishPhase(result, 'native', nativeStart);
 			log.info('Done.');
-			return name;
 		}
 		catch (error) {
 			log.error(error);
-			return '';
+			throw new NativeBuildError('Creating the native project failed.', { file: path.join(options.to, 'korefile.js'), cause: error });
 		}
 	}
 	else {
 		// If target is not a Kore project, e.g. HTML5, finish building here.
+		result.name = name;
 		log.info('Done.');
-		return name;
 	}
 }
 
+function writeOutput(file: string, data: string): void {
+	if (dryrun.get()) dryrun.write(file);
+	else fs.outputFileSync(file, data);
+}
+
+/**
+ * Writes files.json unless it already has these contents, the Haxe compiler
+ * watches it and would otherwise recompile after every asset conversion.
+ */
+function writeResources(resourceDir: string, files: any[]): void {
+	let file = path.join(resourceDir, 'files.json');
+	let data = JSON.stringify({ files: files }, null, '\t');
+	try {
+		if (fs.readFileSync(file, 'utf8') === data) return;
+	}
+	catch (error) {
+		// Not written yet
+	}
+	writeOutput(file, data);
+}
+
+function readResources(resourceDir: string): any {
+	try {
+		return JSON.parse(fs.readFileSync(path.join(resourceDir, 'files.json'), 'utf8'));
+	}
+	catch (error) {
+		return null;
+	}
+}
+
+/**
+ * Shaders which were not compiled again take what they are missing from the previous files.json.
+ */
+function resolveShaders(shaders: CompiledShader[], oldResources: any): CompiledShader[] {
+	function findShader(name: string) {
+		let fallback: any = { };
+		fallback.files = [];
+		fallback.inputs = [];
+		fallback.outputs = [];
+		fallback.uniforms = [];
+		fallback.types = [];
+
+		try {
+			for (let file of oldResources.files) {
+				if (file.type === 'shader' && file.name === fixName(name)) {
+					return file;
+				}
+			}
+		}
+		catch (error) {
+			return fallback;
+		}
+		return fallback;
+	}
+
+	let resolvedShaders: CompiledShader[] = [];
+	for (let shader of shaders) {
+		let oldShader = findShader(shader.name);
+		let resolvedShader = new CompiledShader();
+		resolvedShader.name = shader.name;
+		resolvedShader.files = shader.files === null ? oldShader.files : shader.files;
+		resolvedShader.inputs = shader.inputs === null ? oldShader.inputs : shader.inputs;
+		resolvedShader.outputs = shader.outputs === null ? oldShader.outputs : shader.outputs;
+		resolvedShader.uniforms = shader.uniforms === null ? oldShader.uniforms : shader.uniforms;
+		resolvedShader.types = shader.types === null ? oldShader.types : shader.types;
+		resolvedShaders.push(resolvedShader);
+	}
+	return resolvedShaders;
+}
+
+/**
+ * The entries of files.json.
+ */
+function resourceFiles(assets: Asset[], shaders: CompiledShader[]): {name: string, files: string[], type: string, inputs: any[], outputs: any[], uniforms: any[], types: any[]}[] {
+	let files: {name: string, files: string[], type: string, inputs: any[], outputs: any[], uniforms: any[], types: any[]}[] = [];
+	for (let asset of assets) {
+		let file: any = {
+			name: fixName(asset.name),
+			files: asset.files,
+			type: asset.type
+		};
+		if (file.type === 'image') {
+			file.original_width = asset.original_width;
+			file.original_height = asset.original_height;
+			if (asset.readable) file.readable = asset.readable;
+		}
+		files.push(file);
+	}
+	for (let shader of shaders) {
+		files.push({
+			name: fixName(shader.name),
+			files: shader.files,
+			type: 'shader',
+			inputs: shader.inputs,
+			outputs: shader.outputs,
+			uniforms: shader.uniforms,
+			types: shader.types
+		});
+	}
+	return files;
+}
+
+function copyOutput(from: string, to: string): void {
+	if (dryrun.get()) dryrun.copy(from, to);
+	else fs.copySync(from, to, { overwrite: true });
+}
+
+async function runKoremake(koreOptions: any): Promise<string> {
+	if (dryrun.get()) {
+		let args: string[] = [];
+		for (let key in koreOptions) {
+			if (koreOptions[key] === true) args.push('--' + key);
+			else if (koreOptions[key] !== undefined && koreOptions[key] !== null && koreOptions[key] !== false) args.push('--' + key, koreOptions[key].toString());
+		}
+		dryrun.command(path.join(korepath.get(), 'koremake.js'), args);
+		return null;
+	}
+	return await require(path.join(korepath.get(), 'out', 'main.js')).run(koreOptions, {
+		info: log.info,
+		error: log.error
+	});
+}
+
+/**
+ * Where koremake leaves the executable it compiled for the solution name it reported.
+ * It copies it into the debug directory set in the korefile, macOS apps stay in the build directory.
+ */
+function koreExecutable(platform: string, options: Options, name: string, debugDir: string, buildDir: string): string {
+	let configuration = options.debug ? 'Debug' : 'Release';
+	switch (platform) {
+		case Platform.Linux:
+		case Platform.Pi:
+			return path.resolve(debugDir, name);
+		case Platform.Windows:
+			return path.resolve(debugDir, name + '.exe');
+		case Platform.OSX:
+			return path.resolve(buildDir, 'build', configuration, name + '.app', 'Contents', 'MacOS', name);
+		default:
+			return null;
+	}
+}
+
+const korePlatforms = ['windows', 'windowsapp', 'ios', 'osx', 'android', 'linux', 'html5', 'tizen', 'pi', 'tvos', 'ps4', 'xboxone', 'switch'];
+
+const nonNativePlatforms = [
+	Platform.Krom,
+	Platform.Flash,
+	Platform.HTML5,
+	Platform.HTML5Worker,
+	Platform.DebugHTML5,
+	Platform.WPF,
+	Platform.Java,
+	Platform.PlayStationMobile,
+	Platform.Android,
+	Platform.Node,
+	Platform.Unity,
+	Platform.Empty
+];
+
 function checkKorePlatform(platform: string) {
-	return platform === 'windows'
-		|| platform === 'windowsapp'
-		|| platform === 'ios'
-		|| platform === 'osx'
-		|| platform === 'android'
-		|| platform === 'linux'
-		|| platform === 'html5'
-		|| platform === 'tizen'
-		|| platform === 'pi'
-		|| platform === 'tvos'
-		|| platform === 'ps4'
-		|| platform === 'xboxone'
-		|| platform === 'switch';
+	return korePlatforms.indexOf(platform) >= 0;
+}
+
+function targetNames(project: Project): string[] {
+	let names = nonNativePlatforms.slice();
+	for (let platform of korePlatforms) {
+		names.push(platform + '-native', platform + '-hl', platform + '-native-hl');
+		if (names.indexOf(platform) < 0) names.push(platform);
+	}
+	project.customTargets.forEach((target, name) => {
+		names.push(name);
+	});
+	return names;
+}
+
+function checkTarget(project: Project, target: string): void {
+	let names = targetNames(project);
+	if (names.indexOf(target) >= 0 || names.indexOf(target.toLowerCase()) >= 0) return;
+	let suggestion = suggest(target, names);
+	throw new InvalidOptionError('Unknown platform: ' + target + '.' + (suggestion ? ' Did you mean ' + suggestion + '?' : ''));
+}
+
+function checkConfiguration(project: Project, name: string): void {
+	if (!name || project.configurations.has(name)) return;
+	let names = Array.from(project.configurations.keys());
+	let suggestion = suggest(name, names);
+	throw new InvalidOptionError('Unknown configuration: ' + name + '.' + (suggestion ? ' Did you mean ' + suggestion + '?' : '')
+		+ (names.length > 0 ? ' Available configurations are ' + names.join(', ') + '.' : ' The project does not add any configurations.'));
+}
+
+// Adds what the configuration selected by --config contributes to a copied project
+function applyConfiguration(project: Project, options: Options): void {
+	if (!options.config) return;
+	let configuration = project.configurations.get(options.config);
+	project.defines = project.defines.concat(configuration.defines);
+	project.cdefines = project.cdefines.concat(configuration.cdefines);
+	project.parameters = project.parameters.concat(configuration.parameters);
+	project.assetMatchers = project.assetMatchers.map((matcher) => {
+		return { match: matcher.match, options: Object.assign({}, matcher.options, configuration.assetOptions) };
+	});
+	project.shaderMatchers = project.shaderMatchers.map((matcher) => {
+		return { match: matcher.match, options: Object.assign({}, matcher.options, configuration.shaderOptions) };
+	});
+	if (configuration.debug) options.debug = true;
+}
+
+// -D and --cdefine are added after the khafile, the configuration and the backends
+function applyCommandLineDefines(project: Project, options: Options): void {
+	for (let define of options.define || []) {
+		if (project.defines.indexOf(define) < 0) project.defines.push(define);
+	}
+	for (let define of options.cdefine || []) {
+		if (project.cdefines.indexOf(define) < 0) project.cdefines.push(define);
+	}
+}
+
+function backendDefine(backend: string): string {
+	return 'kha_' + backend.toLowerCase().replace(/[^a-z0-9_]/g, '_');
+}
+
+// Adds the sources, defines and options of the backends of a custom target to a copied project
+function applyBackends(project: Project, options: Options): void {
+	let customTarget = project.customTargets.get(options.target);
+	if (!customTarget) return;
+	for (let backend of customTarget.backendOptions) {
+		let directories = [path.join(options.from, 'Backends', backend.name), path.join(options.kha, 'Backends', backend.name)]
+			.filter((directory) => fs.existsSync(directory) && fs.statSync(directory).isDirectory());
+		if (directories.length === 0) {
+			log.warn('Backend ' + backend.name + ' of target ' + options.target + ' was found neither in ' + path.join(options.from, 'Backends') + ' nor in ' + path.join(options.kha, 'Backends') + '.');
+		}
+		for (let directory of directories) {
+			let source = path.resolve(directory);
+			if (project.sources.indexOf(source) < 0) project.sources.push(source);
+		}
+		let define = backendDefine(backend.name);
+		if (project.defines.indexOf(define) < 0) project.defines.push(define);
+		if (backend.targetOptions) {
+			let targetOptions = {};
+			mergeOptions(targetOptions, backend.targetOptions, [], '');
+			mergeOptions(targetOptions, project.targetOptions, [], '');
+			project.targetOptions = targetOptions;
+		}
+		if (backend.assetOptions) {
+			project.assetMatchers = project.assetMatchers.map((matcher) => {
+				return { match: matcher.match, options: Object.assign({}, matcher.options, backend.assetOptions) };
+			});
+		}
+	}
 }
 
 function koreplatform(platform: string) {
@@ -248,34 +526,51 @@ function koreplatform(platform: string) {
 	else return platform;
 }
 
-async function exportKhaProject(options: Options): Promise<string> {
-	log.info('Creating Kha project.');
+// Targets built from the same project must not see each other's modifications
+function copyProject(project: Project): Project {
+	let copy: Project = Object.assign(Object.create(Project.prototype), project);
+	copy.sources = project.sources.slice();
+	copy.defines = project.defines.slice();
+	copy.cdefines = project.cdefines.slice();
+	copy.parameters = project.parameters.slice();
+	copy.libraries = project.libraries.slice();
+	copy.assetMatchers = project.assetMatchers.slice();
+	copy.shaderMatchers = project.shaderMatchers.slice();
+	return copy;
+}
 
-	let project: Project = null;
-	let foundProjectFile = false;
+function isKhaProject(directory: string, projectfile: string) {
+	return fs.existsSync(path.join(directory, 'Kha')) || fs.existsSync(path.join(directory, projectfile));
+}
 
-	// get the khafile.js and load the config code,
+async function loadKhaProject(options: Options, target: string): Promise<Project> {
+	if (!isKhaProject(options.from, options.projectfile)) {
+		throw new ProjectLoadError('Neither Kha directory nor project file (' + options.projectfile + ') found.', { file: path.join(options.from, options.projectfile) });
+	}
+
+	log.info('Creating Kha project.');
+
+	// get the khafile and load the config code,
 	// then create the project config object, which contains stuff
 	// like project name, assets paths, sources path, library path...
-	if (fs.existsSync(path.join(options.from, options.projectfile))) {
-		try {
-			project = await loadProject(options.from, options.projectfile, options.target);
-		}
-		catch (x) {
-			log.error(x);
-			throw 'Loading the projectfile failed.';
-		}
-
-		foundProjectFile = true;
+	if (!fs.existsSync(path.join(options.from, options.projectfile))) {
+		throw new ProjectLoadError('No khafile found.', { file: path.join(options.from, options.projectfile) });
 	}
 
-	if (!foundProjectFile) {
-		throw 'No khafile found.';
+	let project: Project;
+	try {
+		project = await loadProject(options.from, options.projectfile, target);
 	}
+	catch (x) {
+		if (x instanceof KhamakeError) throw x;
+		log.error(x);
+		throw new ProjectLoadError('Loading the projectfile failed.', { file: path.join(options.from, options.projectfile), output: x ? String(x.stack || x) : null, cause: x });
+	}
+	return project;
+}
 
-	let temp = path.join(options.to, 'temp');
-	fs.ensureDirSync(temp);
-
+// Creates the exporter for options.target and hands it what the (copied) project contains
+function prepareExporter(options: Options, project: Project): { exporter: KhaExporter, kore: boolean, korehl: boolean, target: string, baseTarget: string } {
 	let exporter: KhaExporter = null;
 	let kore = false;
 	let korehl = false;
@@ -327,33 +622,26 @@ async function exportKhaProject(options: Options): Promise<string> {
 			exporter = new EmptyExporter(options);
 			break;
 		default:
-			if (target.endsWith('-hl')) {
+			if (baseTarget.endsWith('-hl')) {
 				korehl = true;
-				options.target = koreplatform(target);
+				options.target = koreplatform(baseTarget);
 				if (!checkKorePlatform(options.target)) {
-					log.error('Unknown platform: ' + options.target);
-					return Promise.reject('');
+					throw new InvalidOptionError('Unknown platform: ' + options.target);
 				}
 				exporter = new KoreHLExporter(options);
 			}
 			else {
 				kore = true;
 				// If target is 'android-native' then options.target becomes 'android'
-				options.target = koreplatform(target);
+				options.target = koreplatform(baseTarget);
 				if (!checkKorePlatform(options.target)) {
-					log.error('Unknown platform: ' + options.target);
-					return Promise.reject('');
+					throw new InvalidOptionError('Unknown platform: ' + options.target);
 				}
 				exporter = new KoreExporter(options);
 			}
 			break;
 	}
-	exporter.setSystemDirectory(target);
-	let buildDir = path.join(options.to, exporter.sysdir() + '-build');
-
-	// Create the target build folder
-	// e.g. 'build/android-native'
-	fs.ensureDirSync(path.join(options.to, exporter.sysdir()));
+	exporter.setSystemDirectory(targetSysdir(target));
 
 	let defaultWindowOptions = {
 		width: 800,
@@ -367,40 +655,103 @@ async function exportKhaProject(options: Options): Promise<string> {
 		'height' in windowOptions ? windowOptions.height : defaultWindowOptions.height
 	);
 
-	for (let source of project.sources) {
-		exporter.addSourceDirectory(source);
+	// Directories excluded as a whole do not become class paths at all
+	let sources = project.sources.filter((source) => !isExcludedDirectory(source, project.sourceExcludes));
+	for (let source of sources) {
+		// Backends of custom targets can name the one the exporter already added
+		if (exporter.sources.indexOf(source) < 0) exporter.addSourceDirectory(source);
 	}
 	for (let library of project.libraries) {
 		exporter.addLibrary(library);
 	}
-	exporter.parameters = exporter.parameters.concat(project.parameters);
+	exporter.parameters = exporter.parameters.concat(project.parameters).concat(excludeParameters(sources, project.sourceExcludes));
 	project.scriptdir = options.kha;
 	if (baseTarget !== Platform.Java && baseTarget !== Platform.WPF) {
 		project.addShaders('Sources/Shaders/**', {});
 	}
 
-	for (let callback of Callbacks.preAssetConversion) {
-		callback();
-	}
+	return { exporter: exporter, kore: kore, korehl: korehl, target: target, baseTarget: baseTarget };
+}
 
-	let assetConverter = new AssetConverter(exporter, options, project.assetMatchers);
+async function exportKhaProject(options: Options, project: Project, result: BuildResult, scanner: FileScanner, hooks: HookContext): Promise<void> {
+	checkTarget(project, options.target);
+	checkConfiguration(project, options.config);
+	project = copyProject(project);
+	applyConfiguration(project, options);
+	applyBackends(project, options);
+	applyCommandLineDefines(project, options);
+
+	let temp = path.join(options.to, 'temp');
+	if (!dryrun.get()) fs.ensureDirSync(temp);
+
+	let {exporter, kore, korehl, target, baseTarget} = prepareExporter(options, project);
+	hooks.project = project;
+	hooks.exporter = exporter;
+	let buildDir = path.join(options.to, exporter.sysdir() + '-build');
+
+	result.name = project.name;
+	result.target = target;
+	result.sysdir = exporter.sysdir();
+	result.to = options.to;
+	result.outputDirectory = path.join(options.to, exporter.sysdir());
+	result.resourceDirectory = path.join(options.to, exporter.sysdir() + '-resources');
+	result.buildDirectory = buildDir;
+
+	// Create the target build folder
+	// e.g. 'build/android-native'
+	if (!dryrun.get()) fs.ensureDirSync(path.join(options.to, exporter.sysdir()));
+
+	await runHook('preAssetConversion', hooks);
+
+	let outputs = new OutputManifest(options.to, result.resourceDirectory);
+	let assetConverter = new AssetConverter(exporter, options, project.assetMatchers, scanner);
+	let shaderCompiler: ShaderCompiler = null;
+	let exportedShaders: CompiledShader[] = [];
+
+	// While watching files.json is written again once a batch of changes has been converted
+	let resourceUpdate: NodeJS.Timer = null;
+	const updateResources = () => {
+		if (resourceUpdate !== null) clearTimeout(resourceUpdate);
+		resourceUpdate = setTimeout(() => {
+			resourceUpdate = null;
+			let shaders = shaderCompiler !== null ? shaderCompiler.compiledShaders() : exportedShaders;
+			let files = resourceFiles(assetConverter.exportedAssets(), resolveShaders(shaders, readResources(result.resourceDirectory)));
+			writeResources(result.resourceDirectory, files);
+		}, 100);
+	};
+
+	assetConverter.onRebuild = () => {
+		updateResources();
+		notifyRebuild(hooks, 'assets');
+	};
+	assetConverter.outputs = outputs;
 	lastAssetConverter = assetConverter;
-	let assets = await assetConverter.run(options.watch, temp);
+	let assetsStart = Date.now();
+	let assets: Asset[];
+	try {
+		assets = await assetConverter.run(options.watch, temp);
+	}
+	catch (error) {
+		if (error instanceof KhamakeError) throw error;
+		throw new AssetConversionError('Asset conversion failed.', { cause: error });
+	}
+	result.assets = assets;
+	finishPhase(result, 'assets', assetsStart);
+	hooks.assets = assets;
+	await runHook('postAssetConversion', hooks);
 
 	let shaderDir = path.join(options.to, exporter.sysdir() + '-resources');
 	if (target === Platform.Unity) {
 		shaderDir = path.join(options.to, exporter.sysdir(), 'Assets', 'Shaders');
 	}
 
-	for (let callback of Callbacks.preShaderCompilation) {
-		callback();
-	}
-	fs.ensureDirSync(shaderDir);
+	await runHook('preShaderCompilation', hooks);
+	if (!dryrun.get()) fs.ensureDirSync(shaderDir);
 
 	let oldResources: any = null;
 	let recompileAllShaders = false;
 	try {
-		oldResources = JSON.parse(fs.readFileSync(path.join(options.to, exporter.sysdir() + '-resources', 'files.json'), 'utf8'));
+		oldResources = readResources(result.resourceDirectory);
 		for (let file of oldResources.files) {
 			if (file.type === 'shader') {
 				if (!file.files || file.files.length === 0) {
@@ -414,7 +765,7 @@ async function exportKhaProject(options: Options): Promise<string> {
 
 	}
 
-	let exportedShaders: CompiledShader[] = [];
+	let shadersStart = Date.now();
 	if (!options.noshaders) {
 		if (fs.existsSync(path.join(options.from, 'Backends'))) {
 			let libdirs = fs.readdirSync(path.join(options.from, 'Backends'));
@@ -429,21 +780,33 @@ async function exportKhaProject(options: Options): Promise<string> {
 			}
 		}
 
-		let shaderCompiler = new ShaderCompiler(exporter, options.target, options.krafix, shaderDir, temp,
-		buildDir, options, project.shaderMatchers);
+		shaderCompiler = new ShaderCompiler(exporter, options.target, options.krafix, shaderDir, temp,
+		buildDir, options, project.shaderMatchers, scanner);
+		shaderCompiler.onRebuild = () => {
+			updateResources();
+			notifyRebuild(hooks, 'shaders');
+		};
+		shaderCompiler.outputs = outputs;
 		lastShaderCompiler = shaderCompiler;
 		try {
 			exportedShaders = await shaderCompiler.run(options.watch, recompileAllShaders);
 		}
 		catch (err) {
-			return Promise.reject(err);
+			if (err instanceof KhamakeError) throw err;
+			throw new ShaderCompileError('Shader compilation failed.', { cause: err });
 		}
 	}
+	else {
+		outputs.keep('shaders');
+	}
+	outputs.prune();
+	finishPhase(result, 'shaders', shadersStart);
+	hooks.shaders = exportedShaders;
+	await runHook('postShaderCompilation', hooks);
 
 	if (target === Platform.Unity) {
-		fs.ensureDirSync(path.join(options.to, exporter.sysdir() + '-resources'));
 		for (let shader of exportedShaders) {
-			fs.writeFileSync(path.join(options.to, exporter.sysdir() + '-resources', shader.name + '.hlsl'), shader.name);
+			writeOutput(path.join(options.to, exporter.sysdir() + '-resources', shader.name + '.hlsl'), shader.name);
 		}
 		let proto = fs.readFileSync(path.join(options.from, options.kha, 'Tools', 'khamake', 'Data', 'unity', 'Shaders', 'proto.shader'), 'utf8');
 		for (let i1 = 0; i1 < exportedShaders.length; ++i1) {
@@ -454,65 +817,20 @@ async function exportKhaProject(options: Options): Promise<string> {
 						let proto2 = proto.replace(/{name}/g, shadername);
 						proto2 = proto2.replace(/{vert}/g, exportedShaders[i1].name);
 						proto2 = proto2.replace(/{frag}/g, exportedShaders[i2].name);
-						fs.writeFileSync(path.join(shaderDir, shadername + '.shader'), proto2, 'utf8');
+						writeOutput(path.join(shaderDir, shadername + '.shader'), proto2);
 					}
 				}
 			}
 		}
 		let blobDir = path.join(options.to, exporter.sysdir(), 'Assets', 'Resources', 'Blobs');
-		fs.ensureDirSync(blobDir);
 		for (let i = 0; i < exportedShaders.length; ++i) {
-			fs.writeFileSync(path.join(blobDir, exportedShaders[i].files[0] + '.bytes'), exportedShaders[i].name, 'utf8');
+			writeOutput(path.join(blobDir, exportedShaders[i].files[0] + '.bytes'), exportedShaders[i].name);
 		}
 	}
 
-	function findShader(name: string) {
-		let fallback: any = { };
-		fallback.files = [];
-		fallback.inputs = [];
-		fallback.outputs = [];
-		fallback.uniforms = [];
-		fallback.types = [];
-
-		try {
-			for (let file of oldResources.files) {
-				if (file.type === 'shader' && file.name === fixName(name)) {
-					return file;
-				}
-			}
-		}
-		catch (error) {
-			return fallback;
-		}
-		return fallback;
-	}
-
-	let files: {name: string, files: string[], type: string, inputs: any[], outputs: any[], uniforms: any[], types: any[]}[] = [];
-	for (let asset of assets) {
-		let file: any = {
-			name: fixName(asset.name),
-			files: asset.files,
-			type: asset.type
-		};
-		if (file.type === 'image') {
-			file.original_width = asset.original_width;
-			file.original_height = asset.original_height;
-			if (asset.readable) file.readable = asset.readable;
-		}
-		files.push(file);
-	}
-	for (let shader of exportedShaders) {
-		let oldShader = findShader(shader.name);
-		files.push({
-			name: fixName(shader.name),
-			files: shader.files === null ? oldShader.files : shader.files,
-			type: 'shader',
-			inputs: shader.inputs === null ? oldShader.inputs : shader.inputs,
-			outputs: shader.outputs === null ? oldShader.outputs : shader.outputs,
-			uniforms: shader.uniforms === null ? oldShader.uniforms : shader.uniforms,
-			types: shader.types === null ? oldShader.types : shader.types
-		});
-	}
+	let resolvedShaders = resolveShaders(exportedShaders, oldResources);
+	result.shaders = result.shaders.concat(resolvedShaders);
+	let files = resourceFiles(assets, resolvedShaders);
 
 	function secondPass() {
 		// First pass is for main project files. Second pass is for shaders.
@@ -532,13 +850,14 @@ async function exportKhaProject(options: Options): Promise<string> {
 		}*/
 	}
 
-	if (foundProjectFile) {
-		fs.outputFileSync(path.join(options.to, exporter.sysdir() + '-resources', 'files.json'), JSON.stringify({ files: files }, null, '\t'));
+	writeResources(path.join(options.to, exporter.sysdir() + '-resources'), files);
+	if (dryrun.get()) {
+		for (let file of files) {
+			log.info('[' + file.type + '] ' + file.name + ': ' + (file.files ? file.files.join(', ') : ''));
+		}
 	}
 
-	for (let callback of Callbacks.preHaxeCompilation) {
-		callback();
-	}
+	await runHook('preHaxeCompilation', hooks);
 	if (options.onlydata) {
 		log.info('Exporting only data.');
 		// We need to copy assets into project folder for Android native
@@ -549,64 +868,97 @@ async function exportKhaProject(options: Options): Promise<string> {
 			let safename = project.name.replace(/ /g, '-');
 			let assetsDir = path.resolve(buildDir, safename, 'app', 'src', 'main', 'assets');
 			// Create path if it does not exist (although it should)
-			fs.ensureDirSync(assetsDir);
+			if (!dryrun.get()) fs.ensureDirSync(assetsDir);
 			log.info(assetsDir);
-			fs.copySync(path.resolve(dataDir), assetsDir);
+			copyOutput(path.resolve(dataDir), assetsDir);
 		}
-		return project.name;
-	}
-	else {
-		return await exportProjectFiles(project.name, path.join(options.to, exporter.sysdir() + '-resources'), options, exporter, kore, korehl,
-			project.libraries, project.targetOptions, project.defines, project.cdefines, project.stackSize);
-	}
-}
-
-function isKhaProject(directory: string, projectfile: string) {
-	return fs.existsSync(path.join(directory, 'Kha')) || fs.existsSync(path.join(directory, projectfile));
-}
-
-async function exportProject(options: Options): Promise<string> {
-	if (isKhaProject(options.from, options.projectfile)) {
-		return await exportKhaProject(options);
 	}
 	else {
-		log.error('Neither Kha directory nor project file (' + options.projectfile + ') found.');
-		return 'Unknown';
+		await exportProjectFiles(project.name, path.join(options.to, exporter.sysdir() + '-resources'), options, exporter, kore, korehl,
+			project.libraries, project.targetOptions, project.defines, project.cdefines, project.stackSize, result, hooks);
 	}
 }
 
-function runProject(options: any): Promise<void> {
+function compileAndroidProject(options: Options, name: string): Promise<void> {
 	return new Promise<void>((resolve, reject) => {
-		log.info('Running...');
-		let run = child_process.spawn(
-			path.join(process.cwd(), options.to, 'linux-build', name),
-			[],
-			{ cwd: path.join(process.cwd(), options.to, 'linux') });
+		let gradlew = (process.platform === 'win32') ? 'gradlew.bat' : 'bash';
+		let args = (process.platform === 'win32') ? [] : ['gradlew'];
+		args.push('assemble');
+		if (dryrun.get()) {
+			dryrun.command(gradlew, args, path.join(options.to, 'android', name));
+			resolve();
+			return;
+		}
+		let make = child_process.spawn(gradlew, args, { cwd: path.join(options.to, 'android', name) });
+		let output = '';
+		let spawnError: Error = null;
 
-		run.stdout.on('data', function (data: any) {
+		make.stdout.on('data', function (data: any) {
 			log.info(data.toString());
 		});
 
-		run.stderr.on('data', function (data: any) {
+		make.stderr.on('data', function (data: any) {
+			output += data.toString();
 			log.error(data.toString());
 		});
 
-		run.on('close', function (code: number) {
-			resolve();
+		make.on('error', function (error: Error) {
+			spawnError = error;
+		});
+
+		make.on('close', function (code: number) {
+			if (spawnError) {
+				reject(new ToolNotFoundError('Could not start ' + gradlew + ': ' + spawnError.message, { cause: spawnError }));
+			}
+			else if (code === 0) {
+				resolve();
+			}
+			else {
+				log.error('Compilation failed.');
+				reject(new NativeBuildError('Compilation failed.', { file: path.join(options.to, 'android', name), output: output, cause: code }));
+			}
 		});
 	});
 }
 
-export let api = 2;
+async function buildTarget(options: Options, project: Project, result: BuildResult, scanner: FileScanner): Promise<void> {
+	let target = options.target;
+	let hooks = createHookContext(project, null, options, result);
+	try {
+		await exportKhaProject(options, project, result, scanner, hooks);
 
-export async function run(options: Options, loglog: any): Promise<string> {
+		if (options.compile && options.target === Platform.Android) {
+			await compileAndroidProject(options, result.name);
+		}
+
+		if (options.run) {
+			let baseTarget = project.customTargets.get(target) ? project.customTargets.get(target).baseTarget : target.toLowerCase();
+			result.exitCode = await runTarget(options, result, baseTarget, onRebuild);
+		}
+	}
+	catch (error) {
+		hooks.error = toBuildError(error);
+		await runHookSafely('onError', hooks);
+		throw error;
+	}
+}
+
+function toBuildError(error: any): BuildError {
+	if (error instanceof BuildError) return error;
+	return new BuildError(error ? error.toString() : 'Build failed.', error);
+}
+
+function setLog(options: Options, loglog: any): void {
 	if (options.silent) {
 		log.silent();
 	}
-	else {
+	else if (loglog) {
 		log.set(loglog);
 	}
+}
 
+function prepareOptions(options: Options): void {
+	dryrun.init(options);
 	if (!options.kha) {
 		let p = path.join(__dirname, '..', '..', '..');
 		if (fs.existsSync(p) && fs.statSync(p).isDirectory()) {
@@ -618,6 +970,13 @@ export async function run(options: Options, loglog: any): Promise<string> {
 	}
 	log.info('Using Kha from ' + options.kha);
 
+	options.projectfile = findProjectFile(options.from, options.projectfile);
+	setEvaluation({
+		timeout: options['khafile-timeout'] || 0,
+		guarded: !!options['khafile-guard'],
+		allowedModules: (options['allow-modules'] || '').split(',').map((name) => name.trim()).filter((name) => name !== '')
+	});
+
 	if (options.parallelAssetConversion === undefined) {
 		options.parallelAssetConversion = 0;
 	}
@@ -626,6 +985,10 @@ export async function run(options: Options, loglog: any): Promise<string> {
 		options.haxe3 = false;
 	}
 
+	if (options.watch === undefined || dryrun.get()) {
+		options.watch = false;
+	}
+
 	if (!options.haxe) {
 		let haxepath = options.haxe3
 		? path.join(options.kha, 'Tools', 'haxe', 'v3.x')
@@ -672,45 +1035,254 @@ export async function run(options: Options, loglog: any): Promise<string> {
 	if (!options.theora && options.ffmpeg) {
 		options.theora = options.ffmpeg + ' -nostdin -i {in} {out}';
 	}
+}
+
+export let api = 2;
 
-	let name = '';
+export {BuildError, ErrorCode, KhamakeError} from './KhamakeError';
+export {BuildResult} from './BuildResult';
+
+/**
+ * Builds the project described by options and resolves to a description of everything that was created.
+ * Failures are reported as a rejected BuildError, the host process is never terminated.
+ */
+export async function build(options: Options, loglog?: any): Promise<BuildResult> {
+	setLog(options, loglog);
+	prepareOptions(options);
+
+	let result = new BuildResult();
+	log.record(result);
 	try {
-		name = await exportProject(options);
+		let projectStart = Date.now();
+		let project = await loadKhaProject(options, options.target);
+		finishPhase(result, 'project', projectStart);
+		updateLockfile(options, [{ target: options.target, project: project }]);
+		await buildTarget(options, project, result, null);
 	}
-	catch (err) {
-		process.exit(1);
+	catch (error) {
+		let buildError = toBuildError(error);
+		if (result.errors.indexOf(buildError.message) < 0) result.errors.push(buildError.message);
+		log.record(null);
+		if (options.report) writeBuildReport(options.report, result, buildError);
+		throw buildError;
 	}
 
-	if (options.target === Platform.Linux && options.run) {
-		await runProject(options);
-	}
+	log.record(null);
+	if (options.report) writeBuildReport(options.report, result, null);
+	return result;
+}
 
-	if (options.compile && options.target === Platform.Android) {
-		let gradlew = (process.platform === 'win32') ? 'gradlew.bat' : 'bash';
-		let args = (process.platform === 'win32') ? [] : ['gradlew'];
-		args.push('assemble');
-		let make = child_process.spawn(gradlew, args, { cwd: path.join(options.to, 'android', name) });
+/**
+ * Builds several targets in one go. The khafile is evaluated once and its project is shared by all targets
+ * unless it or a project it adds mentions platform, then it is evaluated for every target.
+ * Asset and shader directories are scanned only once.
+ */
+export async function buildTargets(options: Options, targets: string[], loglog?: any): Promise<BuildResult[]> {
+	setLog(options, loglog);
+	prepareOptions(options);
+
+	if (options.watch) {
+		throw new BuildError('Watching is only supported when building a single target.');
+	}
 
-		make.stdout.on('data', function (data: any) {
-			log.info(data.toString());
-		});
+	if (options.run) {
+		throw new BuildError('Running is only supported when building a single target.');
+	}
 
-		make.stderr.on('data', function (data: any) {
-			log.error(data.toString());
-		});
+	let builds = targets.map((target) => {
+		let targetOptions: Options = Object.assign({}, options);
+		targetOptions.target = target;
+		return { target: target, options: targetOptions, project: null as Project, result: new BuildResult(), error: null as BuildError, duration: 0 };
+	});
 
-		make.on('close', function (code: number) {
-			if (code === 0) {
+	let recorded = { warnings: [] as string[], errors: [] as string[] };
+	log.record(recorded);
 
+	let scanner = new FileScanner();
+	try {
+		// Project.platform is static, so the projects are loaded one after another.
+		// Loading all of them first fails before anything is built when one of the targets is misspelled.
+		let shared: Project = null;
+		for (let entry of builds) {
+			let projectStart = Date.now();
+			if (shared === null || shared.readsPlatform) {
+				entry.project = await loadKhaProject(entry.options, entry.target);
+				if (shared === null) shared = entry.project;
 			}
 			else {
-				log.error('Compilation failed.');
-				process.exit(code);
+				// Every build works on a copy, see exportKhaProject
+				entry.project = shared;
 			}
+			finishPhase(entry.result, 'project', projectStart);
+			checkTarget(entry.project, entry.target);
+			checkConfiguration(entry.project, options.config);
+		}
+		// Written once from all targets, libraries only some platforms add are recorded with their targets
+		updateLockfile(options, builds);
+	}
+	catch (error) {
+		let buildError = toBuildError(error);
+		log.record(null);
+		if (options.report) writeBuildReports(options.report, builds, recorded);
+		throw buildError;
+	}
+
+	// The targets are built one after another, they would share the log recorder, the dry-run flag,
+	// the last converters of watch mode and koremake's global state otherwise
+	for (let entry of builds) {
+		let start = Date.now();
+		// Warnings and errors are recorded with the target they belong to and collected for the whole build
+		log.record(entry.result);
+		try {
+			await buildTarget(entry.options, entry.project, entry.result, scanner);
+		}
+		catch (error) {
+			entry.error = toBuildError(error);
+		}
+		log.record(recorded);
+		recorded.warnings = recorded.warnings.concat(entry.result.warnings);
+		recorded.errors = recorded.errors.concat(entry.result.errors);
+		if (entry.error !== null) {
+			entry.result.errors.push(entry.error.message);
+			log.error('Building ' + entry.target + ' failed: ' + entry.error.message);
+		}
+		entry.duration = Date.now() - start;
+	}
+
+	log.record(null);
+
+	log.info('');
+	log.info('Summary:');
+	for (let entry of builds) {
+		let status = entry.error === null ? 'done' : 'failed (' + entry.error.message + ')';
+		log.info('  ' + entry.target + ': ' + status + ' after ' + (entry.duration / 1000).toFixed(1) + 's');
+	}
+
+	if (options.report) writeBuildReports(options.report, builds, recorded);
+
+	let failed = builds.filter((entry) => entry.error !== null);
+	if (failed.length > 0) {
+		// Keep the specific code when all targets failed for the same reason
+		let code = failed.every((entry) => entry.error.code === failed[0].error.code) ? failed[0].error.code : ErrorCode.BuildFailed;
+		throw new BuildError('Building ' + failed.map((entry) => entry.target).join(', ') + ' failed.', failed.map((entry) => entry.error), code);
+	}
+	return builds.map((entry) => entry.result);
+}
+
+/**
+ * Builds all targets in options.target, which can be a comma separated list.
+ */
+export async function buildAll(options: Options, loglog?: any): Promise<BuildResult[]> {
+	let targets = options.target.split(',').map((target) => target.trim()).filter((target) => target !== '');
+	if (targets.length > 1) {
+		return await buildTargets(options, targets, loglog);
+	}
+	return [await build(options, loglog)];
+}
+
+function printLibraryTree(project: Project): void {
+	let libraries = new Map<string, ResolvedLibrary>();
+	for (let library of project.resolvedLibraries) {
+		libraries.set(library.name, library);
+	}
+	let shown: string[] = [];
+	function print(name: string, prefix: string, last: boolean): void {
+		let library = libraries.get(name);
+		let line = prefix + (last ? '\\-- ' : '+-- ') + name;
+		if (shown.indexOf(name) >= 0) {
+			log.info(line + ' (see above)');
+			return;
+		}
+		shown.push(name);
+		log.info(line + (library.version ? ' ' + library.version : '') + ' (' + library.source + ', ' + library.path + ')');
+		library.dependencies.forEach((dependency, index) => {
+			print(dependency, prefix + (last ? '    ' : '|   '), index === library.dependencies.length - 1);
 		});
 	}
 
-	return name;
+	log.info(project.name);
+	let roots = project.resolvedLibraries.filter((library) => library.dependencyOf === null);
+	if (roots.length === 0) log.info('(no libraries)');
+	roots.forEach((library, index) => {
+		print(library.name, '', index === roots.length - 1);
+	});
+}
+
+/**
+ * Loads the project and prints the libraries it uses as a tree, nothing is built.
+ */
+export async function listLibraries(options: Options, loglog?: any): Promise<void> {
+	setLog(options, loglog);
+	prepareOptions(options);
+	let project = await loadKhaProject(options, options.target.split(',')[0].trim());
+	printLibraryTree(project);
+}
+
+/**
+ * Evaluates the khafile for the first target and returns the resolved project,
+ * including the haxeOptions of its exporter, as plain JSON-compatible data. Nothing is built or written.
+ */
+export async function describeProject(callerOptions: Options, loglog?: any): Promise<any> {
+	let options: Options = Object.assign({}, callerOptions);
+	options['dry-run'] = true;
+	setLog(options, loglog);
+	prepareOptions(options);
+	try {
+		return await describeTarget(options);
+	}
+	finally {
+		dryrun.init(callerOptions);
+	}
+}
+
+async function describeTarget(options: Options): Promise<any> {
+	options.target = options.target.split(',')[0].trim();
+	let project = await loadKhaProject(options, options.target);
+	checkTarget(project, options.target);
+	checkConfiguration(project, options.config);
+	project = copyProject(project);
+	applyConfiguration(project, options);
+	applyBackends(project, options);
+	applyCommandLineDefines(project, options);
+
+	let {exporter, target, baseTarget} = prepareExporter(options, project);
+	let haxeOptions = createHaxeOptions(project.name, options, exporter, project.targetOptions, project.defines.slice());
+
+	let customTargets: any = {};
+	project.customTargets.forEach((customTarget, name) => {
+		customTargets[name] = { baseTarget: customTarget.baseTarget, backends: customTarget.backendOptions };
+	});
+
+	return {
+		name: project.name,
+		target: target,
+		baseTarget: baseTarget,
+		config: options.config || null,
+		sources: project.sources,
+		libraries: project.libraries.map((library) => ({ libpath: library.libpath, libroot: library.libroot })),
+		defines: project.defines,
+		cdefines: project.cdefines,
+		parameters: project.parameters,
+		assetMatchers: project.assetMatchers,
+		shaderMatchers: project.shaderMatchers,
+		customTargets: customTargets,
+		windowOptions: project.windowOptions,
+		targetOptions: project.targetOptions,
+		stackSize: project.stackSize,
+		haxeOptions: haxeOptions
+	};
+}
+
+export async function run(options: Options, loglog: any): Promise<string> {
+	let results = await buildAll(options, loglog);
+	return results[0].name;
+}
+
+/**
+ * Registers a function which is called whenever watch mode rebuilt code, assets or shaders.
+ */
+export function onRebuild(listener: () => void): void {
+	rebuildListeners.push(listener);
 }
 
 export function close() {
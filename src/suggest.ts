@@ -0,0 +1,27 @@
+function distance(a: string, b: string): number {
+	let previous: number[] = [];
+	for (let j = 0; j <= b.length; ++j) previous.push(j);
+	for (let i = 1; i <= a.length; ++i) {
+		let current = [i];
+		for (let j = 1; j <= b.length; ++j) {
+			let cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			current.push(Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost));
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+// Finds the candidate closest to a probably misspelled value, null if none is close enough
+export function suggest(value: string, candidates: string[]): string {
+	let best: string = null;
+	let bestDistance = Math.max(2, Math.floor(value.length / 3)) + 1;
+	for (let candidate of candidates) {
+		let d = distance(value.toLowerCase(), candidate.toLowerCase());
+		if (d < bestDistance) {
+			best = candidate;
+			bestDistance = d;
+		}
+	}
+	return best;
+}